@@ -1,5 +1,12 @@
 import type { UnknownAction } from 'redux'
-import type { ExportedHistory } from './types'
+import type {
+  ExportedHistory,
+  LoadStatus,
+  UndoableActionsConfig,
+  UndoRedoPayload,
+} from './types'
+
+type InternalActions = UndoableActionsConfig['internalActions']
 
 /**
  * The key used to identify the internal actions state.
@@ -7,51 +14,213 @@ import type { ExportedHistory } from './types'
 export const HISTORY_KEY = '@@redux-undo-actions'
 
 /**
- * Action type constants for undo, redo, reset, and tracking actions.
+ * Action type constants for undo, redo, jump, branch, bookmark, reset, tracking, and grouping actions.
  */
 export const ActionTypes = {
   Undo: `${HISTORY_KEY}/undo`,
   Redo: `${HISTORY_KEY}/redo`,
+  JumpTo: `${HISTORY_KEY}/jumpTo`,
+  SwitchBranch: `${HISTORY_KEY}/switchBranch`,
+  Bookmark: `${HISTORY_KEY}/bookmark`,
+  RestoreBookmark: `${HISTORY_KEY}/restoreBookmark`,
   Reset: `${HISTORY_KEY}/reset`,
   Hydrate: `${HISTORY_KEY}/hydrate`,
+  LoadStatus: `${HISTORY_KEY}/loadStatus`,
   Tracking: `${HISTORY_KEY}/tracking`,
+  BeginGroup: `${HISTORY_KEY}/beginGroup`,
+  EndGroup: `${HISTORY_KEY}/endGroup`,
 }
 
 /**
- * Action creator utilities for undo, redo, reset, and tracking actions.
- * These utilities only work if the internal actions are not overridden in the configuration.
+ * Default internal action types, keyed like the `internalActions` configuration.
  */
-export const ActionCreators = {
+export const internalActionTypes: InternalActions = {
+  undo: ActionTypes.Undo,
+  redo: ActionTypes.Redo,
+  jumpTo: ActionTypes.JumpTo,
+  switchBranch: ActionTypes.SwitchBranch,
+  bookmark: ActionTypes.Bookmark,
+  restoreBookmark: ActionTypes.RestoreBookmark,
+  reset: ActionTypes.Reset,
+  hydrate: ActionTypes.Hydrate,
+  loadStatus: ActionTypes.LoadStatus,
+  tracking: ActionTypes.Tracking,
+  beginGroup: ActionTypes.BeginGroup,
+  endGroup: ActionTypes.EndGroup,
+}
+
+/**
+ * Action creators for undo, redo, jump, branch, bookmark, reset, tracking, and grouping actions.
+ */
+export interface HistoryActionCreators {
   /**
    * Creates an undo action.
+   * @param payload - Optional number of steps or predicate to undo several steps at once.
    * @returns An action to trigger undo.
    */
-  undo: (): UnknownAction => ({ type: ActionTypes.Undo }),
+  undo: (payload?: UndoRedoPayload) => UnknownAction
   /**
    * Creates a redo action.
+   * @param payload - Optional number of steps or predicate to redo several steps at once.
    * @returns An action to trigger redo.
    */
-  redo: (): UnknownAction => ({ type: ActionTypes.Redo }),
+  redo: (payload?: UndoRedoPayload) => UnknownAction
+  /**
+   * Creates an action to jump to a position in history.
+   *
+   * @param payload - Index of the last action to keep applied, or `-1` to undo everything.
+   * @returns An action to undo every undoable action after the index and redo every one up to it.
+   */
+  jumpTo: (payload: number) => UnknownAction
+  /**
+   * Creates an action to switch to another history branch.
+   * Only applies when `historyMode` is `'tree'`.
+   *
+   * @param payload - Id of the branch to switch to.
+   * @returns An action to make the given branch the current one.
+   */
+  switchBranch: (payload: number) => UnknownAction
+  /**
+   * Creates an action to bookmark the current position in history.
+   *
+   * @param payload - Name of the bookmark, replacing any bookmark with the same name.
+   * @returns An action to record the current position.
+   */
+  bookmark: (payload: string) => UnknownAction
+  /**
+   * Creates an action to restore a bookmarked position.
+   *
+   * @param payload - Name of the bookmark to restore.
+   * @returns An action to jump back to the bookmarked position.
+   */
+  restoreBookmark: (payload: string) => UnknownAction
   /**
    * Creates a reset action.
    * @returns An action to reset history.
    */
-  reset: (): UnknownAction => ({ type: ActionTypes.Reset }),
+  reset: () => UnknownAction
   /**
    * Creates an action to hydrate the history.
    * @param payload
    */
   hydrate: <State, Action extends UnknownAction>(
     payload: ExportedHistory<State, Action>,
-  ): UnknownAction => ({ type: ActionTypes.Hydrate, payload }),
+  ) => UnknownAction
+  /**
+   * Creates an action to update the load status of the stored history.
+   * It's dispatched by the persistence middleware, only dispatch it when loading the history yourself.
+   *
+   * @param payload - The new load status.
+   * @returns An action to set `loadStatus`.
+   */
+  loadStatus: (payload: LoadStatus) => UnknownAction
   /**
    * Creates an action to enable or disable the tracking of actions in history.
    *
    * @param payload - If true, enables tracking; if false, disables tracking.
    * @returns An action to update the tracking state in the undo/redo history.
    */
-  tracking: (payload: boolean): UnknownAction => ({
-    type: ActionTypes.Tracking,
-    payload,
-  }),
+  tracking: (payload: boolean) => UnknownAction
+  /**
+   * Creates an action to start a group.
+   * Tracked actions dispatched until the matching `endGroup` are undone and redone as a single step.
+   *
+   * @returns An action to start grouping tracked actions.
+   */
+  beginGroup: () => UnknownAction
+  /**
+   * Creates an action to end the current group.
+   *
+   * @returns An action to stop grouping tracked actions.
+   */
+  endGroup: () => UnknownAction
+}
+
+/**
+ * Creates action creators dispatching the given internal action types.
+ *
+ * @param internalActions - The `internalActions` of the wrapped reducer.
+ * @returns Action creators matching them.
+ */
+export function createActionCreators(
+  internalActions: InternalActions,
+): HistoryActionCreators {
+  return {
+    undo: (payload) => ({ type: internalActions.undo, payload }),
+    redo: (payload) => ({ type: internalActions.redo, payload }),
+    jumpTo: (payload) => ({ type: internalActions.jumpTo, payload }),
+    switchBranch: (payload) => ({
+      type: internalActions.switchBranch,
+      payload,
+    }),
+    bookmark: (payload) => ({ type: internalActions.bookmark, payload }),
+    restoreBookmark: (payload) => ({
+      type: internalActions.restoreBookmark,
+      payload,
+    }),
+    reset: () => ({ type: internalActions.reset }),
+    hydrate: (payload) => ({ type: internalActions.hydrate, payload }),
+    loadStatus: (payload) => ({ type: internalActions.loadStatus, payload }),
+    tracking: (payload) => ({ type: internalActions.tracking, payload }),
+    beginGroup: () => ({ type: internalActions.beginGroup }),
+    endGroup: () => ({ type: internalActions.endGroup }),
+  }
+}
+
+/**
+ * An internal action, as created by the matching history action creator.
+ */
+type HistoryActionOf<Key extends keyof HistoryActionCreators> =
+  Parameters<HistoryActionCreators[Key]> extends []
+    ? { type: string }
+    : { type: string; payload: Parameters<HistoryActionCreators[Key]>[0] }
+
+/**
+ * Type guards telling whether an action is one of the internal actions, e.g. `isUndoAction`.
+ */
+export type HistoryActionGuards = {
+  [Key in keyof HistoryActionCreators as `is${Capitalize<Key>}Action`]: (
+    action: unknown,
+  ) => action is HistoryActionOf<Key>
 }
+
+/**
+ * Creates type guards matching the given internal action types.
+ *
+ * @param internalActions - The `internalActions` of the wrapped reducer.
+ * @returns Type guards, e.g. `isUndoAction`, checking the action type.
+ */
+export function createActionGuards(
+  internalActions: InternalActions,
+): HistoryActionGuards {
+  return Object.fromEntries(
+    Object.entries(internalActions).map(([key, type]) => [
+      `is${key.charAt(0).toUpperCase()}${key.slice(1)}Action`,
+      (action: unknown) =>
+        typeof action === 'object' &&
+        action !== null &&
+        (action as { type?: unknown }).type === type,
+    ]),
+  ) as unknown as HistoryActionGuards
+}
+
+/**
+ * Internal action types prefixed with a namespace, e.g. `counter/undo`, so several wrapped reducers don't react to
+ * each other's actions.
+ *
+ * @param namespace - The prefix, usually the slice name.
+ * @returns Internal action types to use as the `internalActions` configuration.
+ */
+export function getNamespacedActionTypes(namespace: string): InternalActions {
+  return Object.fromEntries(
+    Object.keys(internalActionTypes).map((key) => [key, `${namespace}/${key}`]),
+  ) as unknown as InternalActions
+}
+
+/**
+ * Action creator utilities for undo, redo, jump, branch, bookmark, reset, tracking, and grouping actions.
+ * These utilities only work if the internal actions are not overridden in the configuration.
+ * Use `createActionCreators` with custom internal actions instead.
+ */
+export const ActionCreators: HistoryActionCreators =
+  createActionCreators(internalActionTypes)
@@ -0,0 +1,263 @@
+import type { IncrementalStoragePersistor, StoragePersistor } from './types'
+
+/**
+ * The synchronous Web Storage API, implemented by `localStorage` and `sessionStorage`.
+ */
+export interface WebStorage {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+}
+
+/**
+ * The parts of the IndexedDB API used by `createIndexedDBStorage`, implemented by `window.indexedDB`.
+ */
+export interface IndexedDBFactory {
+  open(name: string, version?: number): IndexedDBOpenRequest
+}
+
+interface IndexedDBRequest<T = unknown> {
+  readonly result: T
+  readonly error: unknown
+  onsuccess: (() => void) | null
+  onerror: (() => void) | null
+}
+
+interface IndexedDBOpenRequest extends IndexedDBRequest<IndexedDBDatabase> {
+  onupgradeneeded: (() => void) | null
+  onblocked: (() => void) | null
+}
+
+interface IndexedDBDatabase {
+  readonly version: number
+  readonly objectStoreNames: { contains(name: string): boolean }
+  createObjectStore(name: string): unknown
+  transaction(
+    storeName: string,
+    mode: 'readonly' | 'readwrite',
+  ): IndexedDBTransaction
+  close(): void
+  onversionchange: (() => void) | null
+}
+
+interface IndexedDBTransaction {
+  readonly error: unknown
+  objectStore(name: string): IndexedDBObjectStore
+  oncomplete: (() => void) | null
+  onerror: (() => void) | null
+  onabort: (() => void) | null
+}
+
+interface IndexedDBObjectStore {
+  get(key: string): IndexedDBRequest
+  put(value: string, key: string): IndexedDBRequest
+  delete(key: string): IndexedDBRequest
+}
+
+/**
+ * Options of `createIndexedDBStorage`.
+ * @property dbName - Name of the database, created if needed.
+ * @property storeName - Name of the object store holding the histories, created if needed.
+ * @property indexedDB - Optional IndexedDB implementation. Defaults to `globalThis.indexedDB`.
+ */
+export interface IndexedDBStorageOptions {
+  dbName: string
+  storeName: string
+  indexedDB?: IndexedDBFactory
+}
+
+/**
+ * Creates a storage backed by `localStorage`, `sessionStorage` or any other Web Storage.
+ *
+ * @param webStorage - The Web Storage to use.
+ * @returns A storage to be used as the `storage` persistence option.
+ *
+ * @example
+ * persistence: {
+ *   storage: createWebStorage(localStorage),
+ * }
+ */
+export function createWebStorage(webStorage: WebStorage): StoragePersistor {
+  // quota errors are thrown synchronously, settle turns them into rejections
+  return {
+    getItem: (key) => settle(() => webStorage.getItem(key)),
+    setItem: (key, value) =>
+      settle(() => {
+        webStorage.setItem(key, value)
+      }),
+    removeItem: (key) =>
+      settle(() => {
+        webStorage.removeItem(key)
+      }),
+  }
+}
+
+/**
+ * Creates a storage backed by an IndexedDB object store, which usually has a much larger quota than Web Storage.
+ * The database is opened on first use; the store is created when missing.
+ *
+ * @param options - The database and store names.
+ * @returns A storage to be used as the `storage` persistence option.
+ *
+ * @example
+ * persistence: {
+ *   storage: createIndexedDBStorage({ dbName: 'my-app', storeName: 'history' }),
+ * }
+ */
+export function createIndexedDBStorage({
+  dbName,
+  storeName,
+  indexedDB = (globalThis as { indexedDB?: IndexedDBFactory }).indexedDB,
+}: IndexedDBStorageOptions): StoragePersistor {
+  let database: Promise<IndexedDBDatabase> | undefined
+
+  const run = async <T>(
+    mode: 'readonly' | 'readwrite',
+    operation: (store: IndexedDBObjectStore) => IndexedDBRequest<T>,
+  ): Promise<T> => {
+    database ??= openDatabase(indexedDB, dbName, storeName, () => {
+      // another connection upgrades the database, the next operation opens it again
+      database = undefined
+    }).catch((e: unknown) => {
+      // retry opening on the next operation
+      database = undefined
+      throw e
+    })
+    const transaction = (await database).transaction(storeName, mode)
+    const request = operation(transaction.objectStore(storeName))
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => {
+        resolve(request.result)
+      }
+      transaction.onerror = transaction.onabort = () => {
+        reject(toError(transaction.error ?? request.error))
+      }
+    })
+  }
+
+  return {
+    getItem: async (key) => {
+      const value = await run('readonly', (store) => store.get(key))
+      return typeof value === 'string' ? value : null
+    },
+    setItem: async (key, value) => {
+      await run('readwrite', (store) => store.put(value, key))
+    },
+    removeItem: async (key) => {
+      await run('readwrite', (store) => store.delete(key))
+    },
+  }
+}
+
+/**
+ * Creates a storage keeping values in memory, useful for tests and server-side rendering.
+ * It supports incremental saves.
+ *
+ * @param initialItems - Optional values to start with.
+ * @returns A storage to be used as the `storage` persistence option.
+ */
+export function createMemoryStorage(
+  initialItems: Record<string, string> = {},
+): IncrementalStoragePersistor {
+  const items = new Map(Object.entries(initialItems))
+  const logs = new Map<string, string[]>()
+
+  return {
+    getItem: (key) => settle(() => items.get(key) ?? null),
+    setItem: (key, value) =>
+      settle(() => {
+        items.set(key, value)
+      }),
+    removeItem: (key) =>
+      settle(() => {
+        items.delete(key)
+        logs.delete(key)
+      }),
+    append: (key, entries) =>
+      settle(() => {
+        logs.set(key, [...(logs.get(key) ?? []), ...entries])
+      }),
+    truncate: (key, length) =>
+      settle(() => {
+        logs.set(key, (logs.get(key) ?? []).slice(0, length))
+      }),
+    getEntries: (key) => settle(() => logs.get(key) ?? []),
+  }
+}
+
+/**
+ * Opens the database, upgrading it when the store is missing.
+ * The connection is closed as soon as another one needs to upgrade the database, e.g. to add its own store,
+ * so upgrades are never blocked by connections of this module.
+ */
+async function openDatabase(
+  indexedDB: IndexedDBFactory | undefined,
+  dbName: string,
+  storeName: string,
+  onClose: () => void,
+  version?: number,
+): Promise<IndexedDBDatabase> {
+  if (indexedDB === undefined) {
+    throw new Error('IndexedDB is not available')
+  }
+
+  const database = await new Promise<IndexedDBDatabase>((resolve, reject) => {
+    let blocked = false
+    const request = indexedDB.open(dbName, version)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName)
+      }
+    }
+    request.onsuccess = () => {
+      if (blocked) {
+        // the operation already failed, the next one opens the database again
+        request.result.close()
+        return
+      }
+
+      request.result.onversionchange = () => {
+        request.result.close()
+        onClose()
+      }
+      resolve(request.result)
+    }
+    request.onerror = () => {
+      reject(toError(request.error))
+    }
+    request.onblocked = () => {
+      // another connection, e.g. of an older page in another tab, doesn't close for the upgrade
+      blocked = true
+      reject(
+        new Error(
+          `upgrading IndexedDB database ${dbName} is blocked by another connection`,
+        ),
+      )
+    }
+  })
+
+  if (database.objectStoreNames.contains(storeName)) {
+    return database
+  }
+
+  // the database exists without this store, which can only be created by upgrading it
+  database.close()
+  return openDatabase(
+    indexedDB,
+    dbName,
+    storeName,
+    onClose,
+    database.version + 1,
+  )
+}
+
+function settle<T>(operation: () => T): Promise<T> {
+  return new Promise((resolve) => {
+    resolve(operation())
+  })
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error))
+}
@@ -0,0 +1,24 @@
+import type { UnknownAction } from 'redux'
+import type { HistoryBranch, HistoryState } from './types'
+import { HISTORY_KEY } from './actions'
+
+/**
+ * Lists every branch of the history, including the current one, sorted by id.
+ * Without `historyMode: 'tree'`, only the current branch is returned.
+ *
+ * @param state - The wrapped state.
+ * @returns The branches, with `current` set for the one being used.
+ *
+ * @example
+ * getBranches(store.getState().editor).map(({ id, current }) => ...)
+ */
+export function getBranches<State, Action extends UnknownAction>(
+  state: HistoryState<State, Action>,
+): (HistoryBranch<Action> & { current: boolean })[] {
+  const { actions, branches = [], branch = 0 } = state[HISTORY_KEY]
+
+  return [
+    ...branches.map((b) => ({ ...b, current: false })),
+    { id: branch, actions, current: true },
+  ].sort((a, b) => a.id - b.id)
+}
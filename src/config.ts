@@ -4,19 +4,18 @@ import type {
   Persistence,
   UndoableActionsConfig,
 } from './types'
-import { ActionTypes } from './actions'
+import { internalActionTypes } from './actions'
 
 const initialUndoableActionsConfig: UndoableActionsConfig = {
   trackedActions: [],
   undoableActions: [],
   trackAfterAction: undefined,
-  internalActions: {
-    undo: ActionTypes.Undo,
-    redo: ActionTypes.Redo,
-    reset: ActionTypes.Reset,
-    hydrate: ActionTypes.Hydrate,
-    tracking: ActionTypes.Tracking,
-  },
+  checkpointInterval: 0,
+  maxHistory: 0,
+  groupBy: undefined,
+  getTimestamp: () => Date.now(),
+  historyMode: 'linear',
+  internalActions: internalActionTypes,
 }
 
 export function getConfig(
@@ -1,5 +1,6 @@
 import type { Middleware, Reducer, UnknownAction } from 'redux'
 import type {
+  ActionType,
   HistoryState,
   PartialUndoableActionsConfig,
   Persistence,
@@ -15,12 +16,12 @@ import { getConfig, getConfigWithPersistence } from './config'
  * @template Action - The Redux action.
  *
  * @param reducer - The base reducer to wrap with undo/redo functionality.
- * @param customConfig - Optional configuration.
+ * @param customConfig - Optional configuration. Action types are checked against `Action`, when its types are known.
  * @returns A reducer managing history state for undo/redo.
  */
 export function undoableActions<State, Action extends UnknownAction>(
   reducer: Reducer<State, Action>,
-  customConfig?: PartialUndoableActionsConfig,
+  customConfig?: PartialUndoableActionsConfig<ActionType<Action>>,
 ): Reducer<HistoryState<State, Action>, Action> {
   const config = getConfig(customConfig)
   return createReducer(reducer, config)
@@ -33,19 +34,25 @@ export function undoableActions<State, Action extends UnknownAction>(
  * @template Action - The Redux action.
  *
  * @param reducer - The base reducer to wrap with undo/redo functionality.
- * @param customConfig - Configuration for undoable actions and persistence.
- * @returns An object containing the reducer and a persistence middleware that should be added to the store.
+ * @param customConfig - Configuration for undoable actions and persistence. Action types are checked against
+ * `Action`, when its types are known.
+ * @returns An object containing the reducer, a persistence middleware that should be added to the store, a `flush`
+ * function writing pending saves right away, and a `dispose` function removing the listeners added by the middleware.
  */
 export function persistedUndoableActions<State, Action extends UnknownAction>(
   reducer: Reducer<State, Action>,
-  customConfig: PartialUndoableActionsConfig & { persistence: Persistence },
+  customConfig: PartialUndoableActionsConfig<ActionType<Action>> & {
+    persistence: Persistence
+  },
 ): {
   reducer: Reducer<HistoryState<State, Action>, Action>
   middleware: Middleware
+  flush: () => Promise<void>
+  dispose: () => void
 } {
   const config = getConfigWithPersistence(customConfig)
   const wrappedReducer = createReducer(reducer, config)
-  const middleware = createPersistenceMiddleware(config)
+  const { middleware, flush, dispose } = createPersistenceMiddleware(config)
 
-  return { reducer: wrappedReducer, middleware }
+  return { reducer: wrappedReducer, middleware, flush, dispose }
 }
@@ -0,0 +1,26 @@
+import type { UnknownAction } from 'redux'
+import type { GroupBy } from './types'
+
+/**
+ * Creates a `groupBy` function that merges consecutive actions of the same type
+ * into a single undo step while they happen within `ms` of each other.
+ *
+ * @param ms - Maximum time between two consecutive actions for them to be merged.
+ * @param types - Action types to coalesce. If empty, all action types are coalesced.
+ * @returns A function to be used as the `groupBy` config option.
+ *
+ * @example
+ * undoableActions(editorReducer, {
+ *   groupBy: coalesceWithin(500, ['editor/setText']),
+ * })
+ */
+export function coalesceWithin(
+  ms: number,
+  types: UnknownAction['type'][] = [],
+): GroupBy {
+  return (action, previousAction, { timestamp }) =>
+    (types.length === 0 || types.includes(action.type)) &&
+    previousAction.action.type === action.type &&
+    previousAction.timestamp !== undefined &&
+    timestamp - previousAction.timestamp <= ms
+}
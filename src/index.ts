@@ -1,3 +1,49 @@
-export { ActionTypes, ActionCreators } from './actions'
+export {
+  ActionTypes,
+  ActionCreators,
+  createActionCreators,
+  createActionGuards,
+  getNamespacedActionTypes,
+} from './actions'
+export type { HistoryActionCreators, HistoryActionGuards } from './actions'
+export { coalesceWithin } from './grouping'
+export { getBranches } from './branches'
+export { selectors, createSelectors } from './selectors'
+export type { HistorySelectors } from './selectors'
+export { previewAt, previewUndo, previewRedo } from './preview'
+export {
+  jsonSerializer,
+  taggedJsonSerializer,
+  SerializationError,
+  DeserializationError,
+} from './serializer'
+export { withCompression, withEncryption } from './transforms'
+export {
+  createWebStorage,
+  createIndexedDBStorage,
+  createMemoryStorage,
+} from './adapters'
+export type {
+  WebStorage,
+  IndexedDBFactory,
+  IndexedDBStorageOptions,
+} from './adapters'
+export { StorageQuotaError, UnknownVersionError } from './storage'
+export {
+  createBroadcastChannelTransport,
+  createStorageEventTransport,
+  SyncConflictError,
+} from './sync'
+export type { BroadcastChannelLike, StorageEventTarget } from './sync'
 export * from './types'
 export * from './creators'
+export { createUndoableInstance } from './instance'
+export type { UndoableInstance, UndoableInstanceConfig } from './instance'
+export { createUndoableSlice } from './slice'
+export type {
+  SliceActionType,
+  SliceLike,
+  UndoableSlice,
+  UndoableSliceConfig,
+  UndoableSliceSelectors,
+} from './slice'
@@ -0,0 +1,133 @@
+import type { Middleware, Reducer, UnknownAction } from 'redux'
+import type {
+  ActionType,
+  HistoryState,
+  PartialUndoableActionsConfig,
+  Persistence,
+  UndoableActionsConfig,
+} from './types'
+import {
+  createActionCreators,
+  createActionGuards,
+  getNamespacedActionTypes,
+  type HistoryActionCreators,
+  type HistoryActionGuards,
+} from './actions'
+import { persistedUndoableActions, undoableActions } from './creators'
+import { createSelectors, type HistorySelectors } from './selectors'
+
+/**
+ * A reducer wrapped by `createUndoableInstance`, along with everything matching its internal actions.
+ * The type guards, e.g. `isUndoAction`, are available on the instance itself.
+ * @template State - The shape of the reducer state.
+ * @template Action - The Redux action.
+ */
+export interface UndoableInstance<State, Action extends UnknownAction>
+  extends HistoryActionGuards {
+  namespace: string
+  /**
+   * The reducer, wrapped with undo/redo.
+   */
+  reducer: Reducer<HistoryState<State, Action>, Action>
+  /**
+   * Internal action types of the instance, prefixed with its namespace, e.g. `canvas/undo`.
+   */
+  internalActions: UndoableActionsConfig['internalActions']
+  /**
+   * History action creators dispatching the instance's internal actions.
+   */
+  actions: HistoryActionCreators
+  /**
+   * History selectors matching the instance's `undoableActions`. They receive the wrapped state.
+   */
+  selectors: HistorySelectors
+}
+
+/**
+ * Configuration of `createUndoableInstance`. Internal actions are derived from the namespace.
+ * @template Type - The action types accepted by `trackedActions`, `undoableActions` and `trackAfterAction`.
+ */
+export type UndoableInstanceConfig<
+  Type extends UnknownAction['type'] = UnknownAction['type'],
+> = Omit<PartialUndoableActionsConfig<Type>, 'internalActions'>
+
+/**
+ * Wraps a reducer with undo/redo, using internal actions prefixed with `namespace` (`canvas/undo`,
+ * `canvas/redo`, ...), so several wrapped reducers never react to each other's actions.
+ *
+ * @template State - The shape of the reducer state.
+ * @template Action - The Redux action.
+ *
+ * @param namespace - The prefix of the internal actions, unique per instance.
+ * @param reducer - The base reducer to wrap with undo/redo functionality.
+ * @param customConfig - Optional configuration. With `persistence`, a persistence middleware is returned as well.
+ * Action types are checked against `Action`, when its types are known.
+ * @returns The wrapped reducer with its action creators, selectors and type guards.
+ *
+ * @example
+ * const canvas = createUndoableInstance('canvas', canvasReducer, {
+ *   trackedActions: ['canvas/draw'],
+ * })
+ *
+ * const store = createStore(combineReducers({ canvas: canvas.reducer }))
+ * store.dispatch(canvas.actions.undo())
+ * canvas.selectors.selectUndoableCount(store.getState().canvas)
+ */
+export function createUndoableInstance<State, Action extends UnknownAction>(
+  namespace: string,
+  reducer: Reducer<State, Action>,
+  customConfig: UndoableInstanceConfig<ActionType<Action>> & {
+    persistence: Persistence
+  },
+): UndoableInstance<State, Action> & {
+  middleware: Middleware
+  flush: () => Promise<void>
+  dispose: () => void
+}
+export function createUndoableInstance<State, Action extends UnknownAction>(
+  namespace: string,
+  reducer: Reducer<State, Action>,
+  customConfig?: UndoableInstanceConfig<ActionType<Action>> & {
+    persistence?: undefined
+  },
+): UndoableInstance<State, Action>
+export function createUndoableInstance<State, Action extends UnknownAction>(
+  namespace: string,
+  reducer: Reducer<State, Action>,
+  customConfig?: UndoableInstanceConfig<ActionType<Action>> & {
+    persistence?: Persistence
+  },
+): UndoableInstance<State, Action> & {
+  middleware?: Middleware
+  flush?: () => Promise<void>
+  dispose?: () => void
+}
+export function createUndoableInstance<State>(
+  namespace: string,
+  reducer: Reducer<State>,
+  customConfig?: UndoableInstanceConfig & { persistence?: Persistence },
+): UndoableInstance<State, UnknownAction> & {
+  middleware?: Middleware
+  flush?: () => Promise<void>
+  dispose?: () => void
+} {
+  const internalActions = getNamespacedActionTypes(namespace)
+  const { persistence, ...config } = customConfig ?? {}
+  const wrapped =
+    persistence === undefined
+      ? { reducer: undoableActions(reducer, { ...config, internalActions }) }
+      : persistedUndoableActions(reducer, {
+          ...config,
+          internalActions,
+          persistence,
+        })
+
+  return {
+    ...wrapped,
+    ...createActionGuards(internalActions),
+    namespace,
+    internalActions,
+    actions: createActionCreators(internalActions),
+    selectors: createSelectors(config),
+  }
+}
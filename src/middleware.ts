@@ -1,94 +1,481 @@
-import { isAction, type Middleware, type UnknownAction } from 'redux'
-import type { History, PersistedUndoableActionsConfig } from './types'
+import {
+  isAction,
+  type Middleware,
+  type MiddlewareAPI,
+  type UnknownAction,
+} from 'redux'
+import type {
+  ExportedHistory,
+  History,
+  HistoryDelta,
+  LoadStatus,
+  PersistedUndoableActionsConfig,
+  Persistence,
+  PersistenceErrorKind,
+  PersistenceStatus,
+} from './types'
 import { isActionTracked } from './utils'
-import { loadHistory, removeHistory, saveHistory } from './storage'
+import {
+  appendHistory,
+  isIncrementalStorage,
+  loadHistory,
+  removeHistory,
+  reportError,
+  saveHistory,
+} from './storage'
 import { HISTORY_KEY } from './actions'
+import { createSaveScheduler } from './scheduler'
+import { jsonSerializer } from './serializer'
+import {
+  createChangeId,
+  isLaterChange,
+  mergeHistories,
+  parseSyncMessage,
+  stringifySyncMessage,
+  SyncConflictError,
+  type SyncMessage,
+} from './sync'
 
 export default function createPersistenceMiddleware(
   config: PersistedUndoableActionsConfig,
-): Middleware {
-  const { reducerKey, getStorageKey, storage, dispatchAfterMaybeLoading } =
-    config.persistence
+): {
+  middleware: Middleware
+  flush: () => Promise<void>
+  dispose: () => void
+} {
+  const { persistence } = config
+  const {
+    reducerKey,
+    getStorageKey,
+    dispatchAfterMaybeLoading,
+    storage,
+    compactionInterval = 50,
+    flushOnUnload = false,
+    onLoadStart,
+    onLoaded,
+    onSaved,
+    statusActions = {},
+    serializer = jsonSerializer,
+    sync,
+  } = persistence
   const isTracked = (action: UnknownAction) => isActionTracked(config, action)
-  let canUseStorage = true
+  const { undo, redo, jumpTo, switchBranch, bookmark, restoreBookmark } =
+    config.internalActions
+  const isHistoryChange = (action: UnknownAction) =>
+    [undo, redo, jumpTo, switchBranch, bookmark, restoreBookmark].includes(
+      action.type,
+    )
+  // last history written to each storage key, and the number of deltas appended since it was written in full
+  const saved = new Map<
+    string,
+    { history: ExportedHistory<unknown, UnknownAction>; entries: number }
+  >()
 
-  return (storeAPI) => (next) => async (action) => {
-    if (!isAction(action)) {
-      throw new Error(
-        'Invalid action provided! Use custom middleware for async actions.',
-      )
+  // last change each storage key was known to be in sync with the other tabs
+  const synced = new Map<string, Pick<SyncMessage, 'id' | 'time'>>()
+  // hydrations and resets dispatched by the middleware are not broadcast, and remote ones are not saved either
+  let applying: 'stored' | 'remote' | undefined
+
+  // set once the middleware is applied to a store
+  let store: MiddlewareAPI | undefined
+
+  const exportHistory = (
+    history: History<unknown, UnknownAction>,
+    withSnapshot = config.maxHistory > 0,
+  ): ExportedHistory<unknown, UnknownAction> => ({
+    actions: history.actions,
+    tracking: history.tracking,
+    ...(withSnapshot && { snapshot: history.snapshot }),
+    ...(config.historyMode === 'tree' && {
+      branches: history.branches,
+      branch: history.branch,
+    }),
+    ...(history.bookmarks.length > 0 && { bookmarks: history.bookmarks }),
+  })
+
+  const dispatchStatus = (
+    status: PersistenceStatus,
+    storageKey: string,
+    payload?: object,
+  ) => {
+    const type = statusActions[status]
+    if (type !== undefined) {
+      store?.dispatch({ type, payload: { storageKey, ...payload } })
     }
+  }
 
-    const previousState: unknown = storeAPI.getState()
-    // after grabbing the previous state, we can call next
-    const returnValue = next(action)
+  const fail = (
+    kind: PersistenceErrorKind,
+    error: unknown,
+    storageKey: string,
+  ) => {
+    reportError(persistence, kind, error, storageKey)
+    dispatchStatus('error', storageKey, {
+      kind,
+      message: error instanceof Error ? error.message : String(error),
+    })
+  }
 
-    if (canUseStorage && action.type === config.internalActions.reset) {
-      canUseStorage = false
-      await removeHistory(
-        storage,
-        getStorageKey(() => previousState),
-      )
-      canUseStorage = true
+  const persist = async (
+    storageKey: string,
+    history: ExportedHistory<unknown, UnknownAction>,
+  ) => {
+    const previous = saved.get(storageKey)
+    const delta = previous && getDelta(previous.history, history)
+    saved.delete(storageKey)
+    dispatchStatus('saving', storageKey)
 
-      // no need to continue
-      return returnValue
+    try {
+      if (
+        delta &&
+        previous.entries < compactionInterval &&
+        isIncrementalStorage(storage)
+      ) {
+        await appendHistory({ ...persistence, storage }, storageKey, delta)
+        saved.set(storageKey, { history, entries: previous.entries + 1 })
+      } else {
+        await saveHistory(persistence, storageKey, history)
+        saved.set(storageKey, { history, entries: 0 })
+      }
+    } catch (e) {
+      fail('save', e, storageKey)
+      return
     }
 
-    if (canUseStorage && action.type === config.trackAfterAction) {
-      canUseStorage = false
-      const history = await loadHistory(
-        storage,
-        getStorageKey(() => storeAPI.getState()),
+    onSaved?.(storageKey)
+    dispatchStatus('saved', storageKey)
+  }
+
+  const setLoadStatus = (loadStatus: LoadStatus) => {
+    store?.dispatch({
+      type: config.internalActions.loadStatus,
+      payload: loadStatus,
+    })
+  }
+
+  const load = async (storageKey: string) => {
+    onLoadStart?.(storageKey)
+    setLoadStatus('loading')
+    dispatchStatus('loading', storageKey)
+
+    let history: ExportedHistory<unknown, UnknownAction> | undefined
+    try {
+      history = await scheduler.enqueue(storageKey, () =>
+        loadHistory(persistence, storageKey),
       )
-      if (history !== undefined) {
-        storeAPI.dispatch({
+    } catch (e) {
+      setLoadStatus('failed')
+      fail('load', e, storageKey)
+      return
+    }
+
+    onLoaded?.(history, storageKey)
+    if (history !== undefined) {
+      // actions dispatched while loading are replaced by the loaded history, so they must not overwrite it
+      scheduler.cancel(storageKey)
+      saved.delete(storageKey)
+      applying = 'stored'
+      try {
+        store?.dispatch({
           type: config.internalActions.hydrate,
           payload: history,
         })
+      } finally {
+        applying = undefined
       }
+    }
+    setLoadStatus('loaded')
+    dispatchStatus('loaded', storageKey)
+  }
+
+  const remove = async (storageKey: string) => {
+    scheduler.cancel(storageKey)
+    saved.delete(storageKey)
+
+    try {
+      // after any write in progress, which would bring the history back otherwise
+      await scheduler.enqueue(storageKey, () =>
+        removeHistory(persistence, storageKey),
+      )
+    } catch (e) {
+      fail('remove', e, storageKey)
+    }
+  }
+
+  const scheduler = createSaveScheduler(persistence, persist)
+
+  const broadcast = (
+    storageKey: string,
+    history?: ExportedHistory<unknown, UnknownAction>,
+  ) => {
+    if (sync === undefined || applying !== undefined) {
+      return
+    }
+
+    const change = { id: createChangeId(), time: Date.now() }
+    const base = synced.get(storageKey)?.id
+    synced.set(storageKey, change)
+    try {
+      sync.transport.post(
+        stringifySyncMessage(serializer, {
+          storageKey,
+          ...change,
+          base,
+          history,
+        }),
+      )
+    } catch (e) {
+      fail('sync', e, storageKey)
+    }
+  }
+
+  // without a history, resets the local one
+  const applyRemote = (
+    { dispatch }: MiddlewareAPI,
+    storageKey: string,
+    history: ExportedHistory<unknown, UnknownAction> | undefined,
+  ) => {
+    // the tab that made the change saves it
+    scheduler.cancel(storageKey)
+    saved.delete(storageKey)
+
+    applying = 'remote'
+    try {
+      dispatch(
+        history === undefined
+          ? { type: config.internalActions.reset }
+          : { type: config.internalActions.hydrate, payload: history },
+      )
+    } finally {
+      applying = undefined
+    }
+  }
+
+  const receive = (storeAPI: MiddlewareAPI, raw: string) => {
+    const message = parseSyncMessage(raw)
+    if (message === undefined) {
+      return
+    }
+
+    const getState = () => storeAPI.getState() as unknown
+    const storageKey = getStorageKey(getState)
+    if (storageKey !== message.storageKey) {
+      return
+    }
+
+    let history: ExportedHistory<unknown, UnknownAction> | undefined
+    try {
+      history =
+        message.history === undefined
+          ? undefined
+          : (serializer.deserialize(message.history) as ExportedHistory<
+              unknown,
+              UnknownAction
+            >)
+    } catch (e) {
+      fail('sync', e, storageKey)
+      return
+    }
+
+    const local = synced.get(storageKey)
+    const change = { id: message.id, time: message.time }
+    if (local === undefined || local.id === message.base) {
+      applyRemote(storeAPI, storageKey, history)
+      synced.set(storageKey, change)
+      return
+    }
+
+    // both tabs changed the history since they were last in sync
+    const { conflictStrategy = 'last-writer-wins' } = sync ?? {}
+    if (conflictStrategy === 'reject') {
+      fail(
+        'sync',
+        new SyncConflictError('history was changed in another tab'),
+        storageKey,
+      )
+      return
+    }
 
-      if (dispatchAfterMaybeLoading) {
-        // experimental timeout to allow visual changes to be applied after hydration
-        setTimeout(
-          () => storeAPI.dispatch({ type: dispatchAfterMaybeLoading }),
-          100,
+    const isRemoteLater = isLaterChange(change, local)
+    if (conflictStrategy === 'merge' && history !== undefined) {
+      const localHistory = exportHistory(
+        getHistoryState(getState(), reducerKey),
+        true,
+      )
+      const merged = isRemoteLater
+        ? mergeHistories(localHistory, history)
+        : mergeHistories(history, localHistory)
+
+      if (merged !== undefined) {
+        applyRemote(storeAPI, storageKey, merged)
+        // both tabs merge the same way, so they agree on the result
+        synced.set(storageKey, {
+          id: [local.id, change.id].sort().join('+'),
+          time: Math.max(local.time, change.time),
+        })
+        // the merged history is new to the storage
+        void scheduler.schedule(
+          storageKey,
+          exportHistory(getHistoryState(getState(), reducerKey)),
         )
+        return
       }
+    }
+
+    if (isRemoteLater) {
+      applyRemote(storeAPI, storageKey, history)
+      synced.set(storageKey, change)
+    }
+  }
 
-      canUseStorage = true
+  // undone by dispose, so stores created in tests, during server-side rendering or hot reloads don't leak listeners
+  let cleanups: (() => void)[] = []
 
-      // halt from saving for no reason
-      return returnValue
+  const listenToUnload = () => {
+    const { addEventListener, removeEventListener } = globalThis as {
+      addEventListener?: (type: string, listener: () => void) => void
+      removeEventListener?: (type: string, listener: () => void) => void
     }
+    const onUnload = () => void scheduler.flush()
+    addEventListener?.('pagehide', onUnload)
+    addEventListener?.('beforeunload', onUnload)
 
-    if (!isTracked(action) || !canUseStorage) {
-      return returnValue
+    return () => {
+      removeEventListener?.('pagehide', onUnload)
+      removeEventListener?.('beforeunload', onUnload)
     }
+  }
 
-    const currentState: unknown = storeAPI.getState()
+  const middleware: Middleware = (storeAPI) => {
+    store = storeAPI
+    if (sync !== undefined) {
+      cleanups.push(
+        sync.transport.subscribe((message) => {
+          receive(storeAPI, message)
+        }),
+      )
+    }
+    if (flushOnUnload) {
+      cleanups.push(listenToUnload())
+    }
+
+    return (next) => async (action) => {
+      if (!isAction(action)) {
+        throw new Error(
+          'Invalid action provided! Use custom middleware for async actions.',
+        )
+      }
 
-    const previousHistory = getHistoryState(previousState, reducerKey)
-    const currentHistory = getHistoryState(currentState, reducerKey)
+      const previousState: unknown = storeAPI.getState()
+      // after grabbing the previous state, we can call next
+      const returnValue = next(action)
 
-    if (
-      currentHistory.tracking !== previousHistory.tracking ||
-      (currentHistory.actions.length > 0 &&
-        currentHistory.actions !== previousHistory.actions)
-    ) {
-      canUseStorage = false
+      if (action.type === config.internalActions.reset) {
+        const storageKey = getStorageKey(() => previousState)
+        // the tab that reset the history removes it
+        if (storageKey !== false && applying !== 'remote') {
+          broadcast(storageKey)
+          await remove(storageKey)
+        }
 
-      const storageKey = getStorageKey(() => storeAPI.getState())
-      const history = {
-        actions: currentHistory.actions,
-        tracking: currentHistory.tracking,
+        // no need to continue
+        return returnValue
       }
-      await saveHistory(storage, storageKey, history)
-      canUseStorage = true
+
+      if (action.type === config.trackAfterAction) {
+        const storageKey = getStorageKey(() => storeAPI.getState())
+        if (storageKey === false) {
+          // nothing to load for this state
+          setLoadStatus('loaded')
+        } else {
+          await load(storageKey)
+        }
+
+        if (dispatchAfterMaybeLoading !== undefined) {
+          storeAPI.dispatch(toAction(dispatchAfterMaybeLoading))
+        }
+
+        // halt from saving for no reason
+        return returnValue
+      }
+
+      if (!isTracked(action) && !isHistoryChange(action)) {
+        return returnValue
+      }
+
+      const currentState: unknown = storeAPI.getState()
+
+      const previousHistory = getHistoryState(previousState, reducerKey)
+      const currentHistory = getHistoryState(currentState, reducerKey)
+
+      if (
+        currentHistory.tracking !== previousHistory.tracking ||
+        currentHistory.bookmarks !== previousHistory.bookmarks ||
+        (currentHistory.actions.length > 0 &&
+          currentHistory.actions !== previousHistory.actions)
+      ) {
+        const storageKey = getStorageKey(() => storeAPI.getState())
+        // histories hydrated from the storage or another tab are already saved
+        if (storageKey === false || applying !== undefined) {
+          return returnValue
+        }
+
+        // other tabs replay the actions on their snapshot, which may differ from their present state
+        broadcast(storageKey, exportHistory(currentHistory, true))
+        // compacted actions only live in the snapshot
+        await scheduler.schedule(storageKey, exportHistory(currentHistory))
+      }
+
+      return returnValue
     }
+  }
+
+  const dispose = () => {
+    for (const cleanup of cleanups) {
+      cleanup()
+    }
+    cleanups = []
+  }
+
+  return { middleware, flush: () => scheduler.flush(), dispose }
+}
 
-    return returnValue
+function toAction(
+  action: NonNullable<Persistence['dispatchAfterMaybeLoading']>,
+): UnknownAction {
+  if (typeof action === 'function') {
+    return action()
   }
+
+  return typeof action === 'string' ? { type: action } : action
+}
+
+/**
+ * Describes the changes between two saved histories as a delta, when only actions changed.
+ * Actions are compared by reference, as the reducer replaces the ones it changes.
+ */
+function getDelta(
+  previous: ExportedHistory<unknown, UnknownAction>,
+  current: ExportedHistory<unknown, UnknownAction>,
+): HistoryDelta | undefined {
+  if (
+    previous.tracking !== current.tracking ||
+    previous.snapshot !== current.snapshot ||
+    previous.branches !== current.branches ||
+    previous.branch !== current.branch ||
+    previous.bookmarks !== current.bookmarks
+  ) {
+    return undefined
+  }
+
+  const from = current.actions.findIndex(
+    (action, i) => action !== previous.actions[i],
+  )
+  if (from === -1) {
+    return { from: current.actions.length, actions: [] }
+  }
+
+  return { from, actions: current.actions.slice(from) }
 }
 
 function getHistoryState(
@@ -0,0 +1,63 @@
+import type { Reducer, UnknownAction } from 'redux'
+import type {
+  HistoryState,
+  PartialUndoableActionsConfig,
+  UndoRedoPayload,
+} from './types'
+import { getConfig } from './config'
+import { jumpTo, redo, undo } from './reducer'
+
+/**
+ * Computes the state a jump to the given history index would produce, without dispatching anything.
+ * Replays from the nearest checkpoint, like the jump itself.
+ *
+ * @param reducer - The base reducer, as given to `undoableActions`.
+ * @param state - The wrapped state.
+ * @param index - Index of the last action to keep applied, or `-1` to undo everything.
+ * @param customConfig - The configuration given to `undoableActions`.
+ * @returns The previewed state, or the current one if the index is invalid.
+ */
+export function previewAt<State, Action extends UnknownAction>(
+  reducer: Reducer<State, Action>,
+  state: HistoryState<State, Action>,
+  index: number,
+  customConfig?: PartialUndoableActionsConfig,
+): State {
+  return jumpTo(reducer, getConfig(customConfig), state, index).present
+}
+
+/**
+ * Computes the state an undo would produce, without dispatching anything.
+ *
+ * @param reducer - The base reducer, as given to `undoableActions`.
+ * @param state - The wrapped state.
+ * @param payload - Optional number of steps or predicate, as given to the undo action.
+ * @param customConfig - The configuration given to `undoableActions`.
+ * @returns The previewed state, or the current one if there is nothing to undo.
+ */
+export function previewUndo<State, Action extends UnknownAction>(
+  reducer: Reducer<State, Action>,
+  state: HistoryState<State, Action>,
+  payload?: UndoRedoPayload,
+  customConfig?: PartialUndoableActionsConfig,
+): State {
+  return undo(reducer, getConfig(customConfig), state, payload).present
+}
+
+/**
+ * Computes the state a redo would produce, without dispatching anything.
+ *
+ * @param reducer - The base reducer, as given to `undoableActions`.
+ * @param state - The wrapped state.
+ * @param payload - Optional number of steps or predicate, as given to the redo action.
+ * @param customConfig - The configuration given to `undoableActions`.
+ * @returns The previewed state, or the current one if there is nothing to redo.
+ */
+export function previewRedo<State, Action extends UnknownAction>(
+  reducer: Reducer<State, Action>,
+  state: HistoryState<State, Action>,
+  payload?: UndoRedoPayload,
+  customConfig?: PartialUndoableActionsConfig,
+): State {
+  return redo(reducer, getConfig(customConfig), state, payload).present
+}
@@ -0,0 +1,301 @@
+import type { UnknownAction } from 'redux'
+import { useCallback, useEffect, useMemo } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import type {
+  HistoryAction,
+  HistoryState,
+  PartialUndoableActionsConfig,
+  UndoableActionsConfig,
+  UndoRedoPayload,
+} from './types'
+import {
+  createActionCreators,
+  HISTORY_KEY,
+  type HistoryActionCreators,
+  internalActionTypes,
+} from './actions'
+import { getConfig } from './config'
+import { isActionUndoable } from './utils'
+
+/**
+ * Options shared by the hooks.
+ */
+export interface HistoryHookOptions {
+  /**
+   * The `internalActions` given to the wrapped reducer, e.g. the ones of `createUndoableInstance` or
+   * `createUndoableSlice`. Pass a stable object, so the returned callbacks keep their identity.
+   * Defaults to the built-in internal actions.
+   */
+  internalActions?: Partial<UndoableActionsConfig['internalActions']>
+}
+
+/**
+ * Options of `useHistoryList`.
+ */
+export interface HistoryListOptions extends HistoryHookOptions {
+  /**
+   * The `undoableActions` given to the wrapped reducer, so `currentIndex` is where undo starts from.
+   * Pass a stable value, so the index is only recomputed when the history changes.
+   * Defaults to every action being undoable.
+   */
+  undoableActions?: PartialUndoableActionsConfig['undoableActions']
+}
+
+/**
+ * Returned by `useUndoRedo`.
+ */
+export interface UndoRedo {
+  /**
+   * Dispatches an undo action.
+   * @param payload - Optional number of steps or predicate to undo several steps at once.
+   */
+  undo: (payload?: UndoRedoPayload) => void
+  /**
+   * Dispatches a redo action.
+   * @param payload - Optional number of steps or predicate to redo several steps at once.
+   */
+  redo: (payload?: UndoRedoPayload) => void
+  /**
+   * Dispatches a reset action, clearing the history.
+   */
+  reset: () => void
+  canUndo: boolean
+  canRedo: boolean
+}
+
+/**
+ * An action of the history, as listed by `useHistoryList`.
+ * @template Action - The Redux action.
+ */
+export interface HistoryListEntry<Action extends UnknownAction>
+  extends HistoryAction<Action> {
+  /**
+   * Position of the action in history, to be given to `jumpTo`.
+   */
+  index: number
+}
+
+/**
+ * Returned by `useHistoryList`.
+ * @template Action - The Redux action.
+ */
+export interface HistoryList<Action extends UnknownAction> {
+  /**
+   * Every action in history, oldest first, including undone ones.
+   */
+  entries: HistoryListEntry<Action>[]
+  /**
+   * Index of the last applied undoable action, or `-1` when every undoable action was undone.
+   */
+  currentIndex: number
+  /**
+   * Dispatches a jump to the given position in history.
+   * @param index - Index of the last action to keep applied, or `-1` to undo everything.
+   */
+  jumpTo: (index: number) => void
+}
+
+/**
+ * The parts of `window` used by `useUndoShortcuts` to listen to `keydown` events.
+ */
+export interface KeyboardEventTarget {
+  addEventListener(
+    type: 'keydown',
+    listener: (event: KeyboardEventLike) => void,
+  ): void
+  removeEventListener(
+    type: 'keydown',
+    listener: (event: KeyboardEventLike) => void,
+  ): void
+}
+
+/**
+ * The parts of a `KeyboardEvent` used by `useUndoShortcuts`.
+ */
+export interface KeyboardEventLike {
+  key: string
+  ctrlKey: boolean
+  metaKey: boolean
+  shiftKey: boolean
+  altKey: boolean
+  target: unknown
+  preventDefault(): void
+}
+
+/**
+ * Options of `useUndoShortcuts`.
+ */
+export interface UndoShortcutsOptions extends HistoryHookOptions {
+  /**
+   * Where to listen to `keydown` events.
+   * Defaults to `window`.
+   */
+  target?: KeyboardEventTarget
+  /**
+   * Set to false to unbind the shortcuts, e.g. while a dialog is open.
+   * Defaults to true.
+   */
+  enabled?: boolean
+}
+
+/**
+ * Binds undo/redo buttons to a wrapped state.
+ *
+ * @param selectHistory - Selects the wrapped state from the root state, e.g. `(state) => state.counter`.
+ * @param options - Optional `internalActions` of the wrapped reducer.
+ * @returns Callbacks dispatching undo, redo and reset, and whether undo and redo are possible.
+ *
+ * @example
+ * const { undo, redo, canUndo, canRedo } = useUndoRedo((state: RootState) => state.counter)
+ *
+ * return <button onClick={() => undo()} disabled={!canUndo}>Undo</button>
+ */
+export function useUndoRedo(
+  selectHistory: (rootState: never) => HistoryState<unknown, UnknownAction>,
+  options?: HistoryHookOptions,
+): UndoRedo {
+  const dispatch = useDispatch()
+  const actions = useHistoryActions(options?.internalActions)
+  const canUndo = useSelector(
+    (rootState) => selectHistory(rootState as never).canUndo,
+  )
+  const canRedo = useSelector(
+    (rootState) => selectHistory(rootState as never).canRedo,
+  )
+
+  const undo = useCallback(
+    (payload?: UndoRedoPayload) => dispatch(actions.undo(payload)),
+    [dispatch, actions],
+  )
+  const redo = useCallback(
+    (payload?: UndoRedoPayload) => dispatch(actions.redo(payload)),
+    [dispatch, actions],
+  )
+  const reset = useCallback(
+    () => dispatch(actions.reset()),
+    [dispatch, actions],
+  )
+
+  return { undo, redo, reset, canUndo, canRedo }
+}
+
+/**
+ * Lists the actions of a wrapped state, e.g. to render a timeline.
+ * The list is only recomputed when the history changes.
+ *
+ * @template Action - The Redux action.
+ * @param selectHistory - Selects the wrapped state from the root state, e.g. `(state) => state.canvas`.
+ * @param options - Optional `internalActions` and `undoableActions` of the wrapped reducer.
+ * @returns The actions of the history, the position of the last applied one, and a callback jumping to a position.
+ *
+ * @example
+ * const { entries, currentIndex, jumpTo } = useHistoryList((state: RootState) => state.canvas)
+ *
+ * return entries.map((entry) => (
+ *   <li key={entry.index} onClick={() => jumpTo(entry.index)}>{entry.action.type}</li>
+ * ))
+ */
+export function useHistoryList<Action extends UnknownAction>(
+  selectHistory: (rootState: never) => HistoryState<unknown, Action>,
+  options?: HistoryListOptions,
+): HistoryList<Action> {
+  const dispatch = useDispatch()
+  const actions = useHistoryActions(options?.internalActions)
+  const historyActions = useSelector(
+    (rootState) => selectHistory(rootState as never)[HISTORY_KEY].actions,
+  )
+
+  const entries = useMemo(
+    () =>
+      historyActions.map((historyAction, index) => ({
+        ...historyAction,
+        index,
+      })),
+    [historyActions],
+  )
+  const undoableActions = options?.undoableActions
+  const currentIndex = useMemo(() => {
+    const config = getConfig({
+      ...(undoableActions !== undefined && { undoableActions }),
+    })
+    return historyActions.findLastIndex(
+      (historyAction) =>
+        !historyAction.undone && isActionUndoable(config, historyAction.action),
+    )
+  }, [historyActions, undoableActions])
+  const jumpTo = useCallback(
+    (index: number) => dispatch(actions.jumpTo(index)),
+    [dispatch, actions],
+  )
+
+  return { entries, currentIndex, jumpTo }
+}
+
+/**
+ * Binds Ctrl+Z / Cmd+Z to undo, and Ctrl+Shift+Z / Cmd+Shift+Z to redo.
+ * Shortcuts typed in text fields are left to the browser, so they keep undoing the text.
+ *
+ * @param options - Optional `internalActions` of the wrapped reducer, target and switch of the shortcuts.
+ *
+ * @example
+ * useUndoShortcuts({ internalActions: canvas.internalActions })
+ */
+export function useUndoShortcuts(options?: UndoShortcutsOptions): void {
+  const dispatch = useDispatch()
+  const actions = useHistoryActions(options?.internalActions)
+  const target =
+    options?.target ?? (globalThis as { window?: KeyboardEventTarget }).window
+  const enabled = options?.enabled ?? true
+
+  useEffect(() => {
+    if (!enabled || target === undefined) {
+      return undefined
+    }
+
+    const onKeyDown = (event: KeyboardEventLike) => {
+      if (
+        !(event.ctrlKey || event.metaKey) ||
+        event.altKey ||
+        event.key.toLowerCase() !== 'z' ||
+        isEditable(event.target)
+      ) {
+        return
+      }
+
+      event.preventDefault()
+      dispatch(event.shiftKey ? actions.redo() : actions.undo())
+    }
+    target.addEventListener('keydown', onKeyDown)
+
+    return () => {
+      target.removeEventListener('keydown', onKeyDown)
+    }
+  }, [dispatch, actions, target, enabled])
+}
+
+function useHistoryActions(
+  internalActions: HistoryHookOptions['internalActions'],
+): HistoryActionCreators {
+  return useMemo(
+    () => createActionCreators({ ...internalActionTypes, ...internalActions }),
+    [internalActions],
+  )
+}
+
+function isEditable(target: unknown): boolean {
+  if (typeof target !== 'object' || target === null) {
+    return false
+  }
+
+  const { tagName, isContentEditable } = target as {
+    tagName?: unknown
+    isContentEditable?: unknown
+  }
+
+  return (
+    isContentEditable === true ||
+    tagName === 'INPUT' ||
+    tagName === 'TEXTAREA' ||
+    tagName === 'SELECT'
+  )
+}
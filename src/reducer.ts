@@ -1,10 +1,14 @@
 import type { Reducer, UnknownAction } from 'redux'
 import type {
+  Checkpoint,
   ExportedHistory,
   History,
   HistoryAction,
+  HistoryBranch,
   HistoryState,
+  LoadStatus,
   UndoableActionsConfig,
+  UndoRedoPayload,
 } from './types'
 import {
   canRedo,
@@ -31,15 +35,29 @@ export default function createReducer<State, Action extends UnknownAction>(
 
     switch (action.type) {
       case config.internalActions.undo:
-        return undo(reducer, config, state)
+        return undo(reducer, config, state, action.payload as UndoRedoPayload)
       case config.internalActions.redo:
-        return redo(reducer, config, state)
+        return redo(reducer, config, state, action.payload as UndoRedoPayload)
+      case config.internalActions.jumpTo:
+        return jumpTo(reducer, config, state, action.payload as number)
+      case config.internalActions.switchBranch:
+        return switchBranch(reducer, config, state, action.payload as number)
+      case config.internalActions.bookmark:
+        return bookmark(config, state, action.payload as string)
+      case config.internalActions.restoreBookmark:
+        return restoreBookmark(reducer, config, state, action.payload as string)
       case config.internalActions.reset:
         return reset(config, state, initialState)
       case config.internalActions.hydrate:
         return hydrate(reducer, config, state, action, initialState)
       case config.internalActions.tracking:
         return setTracking(state, action)
+      case config.internalActions.loadStatus:
+        return setLoadStatus(state, action)
+      case config.internalActions.beginGroup:
+        return beginGroup(state)
+      case config.internalActions.endGroup:
+        return endGroup(state)
       case config.trackAfterAction:
         return trackAfter(reducer, config, state, action, initialState)
       default:
@@ -60,95 +78,294 @@ function getInitialState<State, Action extends UnknownAction>(
       tracking: config.trackAfterAction === undefined,
       actions: [],
       snapshot: initialPresent,
+      checkpoints: [],
+      bookmarks: [],
+      ...(config.historyMode === 'tree' && { branches: [], branch: 0 }),
     },
     canUndo: false,
     canRedo: false,
+    bookmarks: [],
+    loadStatus: 'idle',
   }
 }
 
-function undo<State, Action extends UnknownAction>(
+export function undo<State, Action extends UnknownAction>(
   reducer: Reducer<State, Action>,
   config: UndoableActionsConfig,
   state: HistoryState<State, Action>,
+  payload: UndoRedoPayload | undefined,
 ): HistoryState<State, Action> {
   const history = state[HISTORY_KEY]
   const { actions } = history
+  const shouldContinue = getStepCondition(payload)
 
-  if (!canUndo(config, actions)) {
+  let newActions = actions
+  for (let step = 0; canUndo(config, newActions); step++) {
+    const lastUndoableIndex = newActions.findLastIndex(
+      (a) => !a.undone && isActionUndoable(config, a.action),
+    )
+
+    if (!shouldContinue(newActions[lastUndoableIndex], step)) {
+      break
+    }
+
+    newActions = setUndone(config, newActions, lastUndoableIndex, true)
+  }
+
+  if (newActions === actions) {
     return state
   }
 
-  const lastUndoableIndex = actions.findLastIndex(
-    (a) => !a.undone && isActionUndoable(config, a.action),
+  const { present, checkpoints } = replay(
+    reducer,
+    config,
+    newActions,
+    history.snapshot,
+    history.checkpoints,
+    getFirstChangedIndex(actions, newActions),
   )
 
-  const newActions = actions.toSpliced(lastUndoableIndex, 1, {
-    ...actions[lastUndoableIndex],
-    undone: true,
-  })
-
-  const present = replay(reducer, newActions, history.snapshot)
-
   return {
     [HISTORY_KEY]: {
       ...history,
       actions: newActions,
+      checkpoints,
     },
     present,
     canUndo: canUndo(config, newActions),
     canRedo: canRedo(config, newActions),
+    bookmarks: history.bookmarks,
+    loadStatus: state.loadStatus,
   }
 }
 
-function redo<State, Action extends UnknownAction>(
+export function redo<State, Action extends UnknownAction>(
   reducer: Reducer<State, Action>,
   config: UndoableActionsConfig,
   state: HistoryState<State, Action>,
+  payload: UndoRedoPayload | undefined,
 ): HistoryState<State, Action> {
   const { present } = state
   const history = state[HISTORY_KEY]
   const { actions } = history
+  const shouldContinue = getStepCondition(payload)
+
+  let newActions = actions
+  for (let step = 0; canRedo(config, newActions); step++) {
+    const firstUndoableIndex = newActions.findIndex(
+      (a) => a.undone && isActionUndoable(config, a.action),
+    )
+
+    if (!shouldContinue(newActions[firstUndoableIndex], step)) {
+      break
+    }
+
+    newActions = setUndone(config, newActions, firstUndoableIndex, false)
+  }
 
-  if (!canRedo(config, actions)) {
+  if (newActions === actions) {
     return state
   }
 
-  const firstUndoableIndex = actions.findIndex(
-    (a) => a.undone && isActionUndoable(config, a.action),
-  )
+  const firstChangedIndex = getFirstChangedIndex(actions, newActions)
+  let replayed: { present: State; checkpoints: Checkpoint<State>[] }
+
+  if (firstChangedIndex === actions.length - 1) {
+    const newPresent = reducer(present, newActions[firstChangedIndex].action)
+    replayed = {
+      present: newPresent,
+      checkpoints: addCheckpointAtEnd(
+        reducer,
+        config,
+        newActions,
+        history.snapshot,
+        discardCheckpointsAfter(history.checkpoints, firstChangedIndex),
+      ),
+    }
+  } else {
+    replayed = replay(
+      reducer,
+      config,
+      newActions,
+      history.snapshot,
+      history.checkpoints,
+      firstChangedIndex,
+    )
+  }
+
+  return {
+    [HISTORY_KEY]: {
+      ...history,
+      actions: newActions,
+      checkpoints: replayed.checkpoints,
+    },
+    present: replayed.present,
+    canUndo: canUndo(config, newActions),
+    canRedo: canRedo(config, newActions),
+    bookmarks: history.bookmarks,
+    loadStatus: state.loadStatus,
+  }
+}
+
+export function jumpTo<State, Action extends UnknownAction>(
+  reducer: Reducer<State, Action>,
+  config: UndoableActionsConfig,
+  state: HistoryState<State, Action>,
+  index: number,
+): HistoryState<State, Action> {
+  const history = state[HISTORY_KEY]
+  const { actions } = history
 
-  const newActions = actions.toSpliced(firstUndoableIndex, 1, {
-    ...actions[firstUndoableIndex],
-    undone: false,
+  if (!Number.isInteger(index) || index < -1 || index >= actions.length) {
+    return state
+  }
+
+  // never split a group, include the whole group of the target action
+  const group = index === -1 ? undefined : actions[index].group
+  const lastIndex =
+    group === undefined
+      ? index
+      : actions.findLastIndex((a) => a.group === group)
+
+  const newActions = actions.map((a, i) => {
+    const undone = i > lastIndex
+    return a.undone === undone || !isActionUndoable(config, a.action)
+      ? a
+      : { ...a, undone }
   })
 
-  let newPresent: State
+  const fromIndex = getFirstChangedIndex(actions, newActions)
+  if (fromIndex === -1) {
+    return state
+  }
+
+  const { present, checkpoints } = replay(
+    reducer,
+    config,
+    newActions,
+    history.snapshot,
+    history.checkpoints,
+    fromIndex,
+  )
 
-  if (firstUndoableIndex === actions.length - 1) {
-    newPresent = reducer(present, newActions[firstUndoableIndex].action)
-  } else {
-    newPresent = replay(reducer, newActions, history.snapshot)
+  return {
+    [HISTORY_KEY]: {
+      ...history,
+      actions: newActions,
+      checkpoints,
+    },
+    present,
+    canUndo: canUndo(config, newActions),
+    canRedo: canRedo(config, newActions),
+    bookmarks: history.bookmarks,
+    loadStatus: state.loadStatus,
   }
+}
+
+function switchBranch<State, Action extends UnknownAction>(
+  reducer: Reducer<State, Action>,
+  config: UndoableActionsConfig,
+  state: HistoryState<State, Action>,
+  id: number,
+): HistoryState<State, Action> {
+  const history = state[HISTORY_KEY]
+  const { actions, branches = [], branch = 0 } = history
+  const target = branches.find((b) => b.id === id)
+
+  if (!target) {
+    return state
+  }
+
+  const newActions = target.actions
+  const firstChangedIndex = getFirstChangedIndex(actions, newActions)
+
+  const { present, checkpoints } = replay(
+    reducer,
+    config,
+    newActions,
+    history.snapshot,
+    history.checkpoints,
+    firstChangedIndex === -1 ? newActions.length : firstChangedIndex,
+  )
 
   return {
-    [HISTORY_KEY]: { ...history, actions: newActions },
-    present: newPresent,
+    [HISTORY_KEY]: {
+      ...history,
+      actions: newActions,
+      checkpoints,
+      branches: [
+        ...branches.filter((b) => b !== target),
+        { id: branch, actions },
+      ],
+      branch: target.id,
+    },
+    present,
     canUndo: canUndo(config, newActions),
     canRedo: canRedo(config, newActions),
+    bookmarks: history.bookmarks,
+    loadStatus: state.loadStatus,
   }
 }
 
+function bookmark<State, Action extends UnknownAction>(
+  config: UndoableActionsConfig,
+  state: HistoryState<State, Action>,
+  name: string,
+): HistoryState<State, Action> {
+  const history = state[HISTORY_KEY]
+  const index = history.actions.findLastIndex(
+    (a) => !a.undone && isActionUndoable(config, a.action),
+  )
+
+  const bookmarks = [
+    ...history.bookmarks.filter((b) => b.name !== name),
+    {
+      name,
+      index,
+      ...(history.branch !== undefined && { branch: history.branch }),
+    },
+  ]
+
+  return {
+    ...state,
+    [HISTORY_KEY]: { ...history, bookmarks },
+    bookmarks,
+  }
+}
+
+function restoreBookmark<State, Action extends UnknownAction>(
+  reducer: Reducer<State, Action>,
+  config: UndoableActionsConfig,
+  state: HistoryState<State, Action>,
+  name: string,
+): HistoryState<State, Action> {
+  const target = state[HISTORY_KEY].bookmarks.find((b) => b.name === name)
+
+  if (!target) {
+    return state
+  }
+
+  const newState =
+    target.branch === undefined || target.branch === state[HISTORY_KEY].branch
+      ? state
+      : switchBranch(reducer, config, state, target.branch)
+
+  return jumpTo(reducer, config, newState, target.index)
+}
+
 function reset<State, Action extends UnknownAction>(
   config: UndoableActionsConfig,
   state: HistoryState<State, Action>,
   initialState: HistoryState<State, Action>,
 ): HistoryState<State, Action> {
+  // the stored history is removed, but whether it was loaded doesn't change
   if (config.trackAfterAction === undefined) {
-    return initialState
+    return { ...initialState, loadStatus: state.loadStatus }
   }
 
   return {
     ...initialState,
+    loadStatus: state.loadStatus,
     [HISTORY_KEY]: {
       ...initialState[HISTORY_KEY],
       tracking: state[HISTORY_KEY].tracking,
@@ -201,22 +418,79 @@ function handleAction<State, Action extends UnknownAction>(
     }
   }
 
-  let newActions = [...actions, { action, undone: false }]
+  const historyAction: HistoryAction<Action> = { action, undone: false }
+  if (config.groupBy) {
+    historyAction.timestamp = config.getTimestamp(action)
+  }
+
+  let newActions = actions
+  let checkpoints = history.checkpoints
+  let { branches, branch, bookmarks } = history
   if (isActionUndoable(config, action)) {
-    // clean future actions
-    newActions = newActions.filter((a) => !a.undone)
+    // clean future actions, checkpoints after the first removed one are shifted
+    const firstUndoneIndex = actions.findIndex((a) => a.undone)
+    if (firstUndoneIndex !== -1) {
+      checkpoints = discardCheckpointsAfter(checkpoints, firstUndoneIndex)
+      newActions = newActions.filter((a) => !a.undone)
+
+      if (branches !== undefined) {
+        // keep the discarded future as a branch and start a new one
+        branches = [...branches, { id: branch ?? 0, actions }]
+        branch = getNextBranchId(branches)
+      } else {
+        bookmarks = bookmarks.filter((b) => b.index < firstUndoneIndex)
+      }
+    }
   }
 
+  const previous = newActions.at(-1)
+  if (history.group) {
+    historyAction.group = history.group.id
+  } else if (
+    config.groupBy &&
+    previous &&
+    !previous.undone &&
+    config.groupBy(action, previous, {
+      timestamp: historyAction.timestamp ?? 0,
+    })
+  ) {
+    // coalesce into the undo step of the previous action
+    historyAction.group = previous.group ?? getNextGroupId(newActions)
+    if (previous.group === undefined) {
+      newActions = newActions.toSpliced(-1, 1, {
+        ...previous,
+        group: historyAction.group,
+      })
+    }
+  }
+
+  newActions = [...newActions, historyAction]
+  checkpoints = addCheckpointAtEnd(
+    reducer,
+    config,
+    newActions,
+    history.snapshot,
+    checkpoints,
+  )
+
+  const newHistory = compact(reducer, config, {
+    ...history,
+    actions: newActions,
+    checkpoints,
+    bookmarks,
+    ...(branches !== undefined && { branches, branch }),
+  })
+
   return {
-    [HISTORY_KEY]: {
-      ...history,
-      actions: newActions,
-    },
+    [HISTORY_KEY]: newHistory,
     present: newPresent,
-    canUndo: canUndo(config, newActions),
-    canRedo: canRedo(config, newActions),
+    canUndo: canUndo(config, newHistory.actions),
+    canRedo: canRedo(config, newHistory.actions),
+    bookmarks: newHistory.bookmarks,
+    loadStatus: state.loadStatus,
   }
 }
+
 function hydrate<State, Action extends UnknownAction>(
   reducer: Reducer<State, Action>,
   config: UndoableActionsConfig,
@@ -225,24 +499,41 @@ function hydrate<State, Action extends UnknownAction>(
   initialState: HistoryState<State, Action>,
 ): HistoryState<State, Action> {
   const { payload } = action
-  const { actions = [], tracking = true } = payload as ExportedHistory<
-    State,
-    Action
-  >
+  const {
+    actions = [],
+    tracking = true,
+    snapshot = state.present,
+    branches = [],
+    branch = 0,
+    bookmarks = [],
+  } = payload as ExportedHistory<State, Action>
+
+  const { present: newPresent, checkpoints } = replay(
+    reducer,
+    config,
+    actions,
+    snapshot,
+    [],
+  )
 
-  const newPresent = replay(reducer, actions, state.present)
+  const newHistory = compact(reducer, config, {
+    ...initialState[HISTORY_KEY],
+    tracking,
+    actions,
+    snapshot,
+    checkpoints,
+    bookmarks,
+    ...(config.historyMode === 'tree' && { branches, branch }),
+  })
 
   return {
     ...initialState,
-    [HISTORY_KEY]: {
-      ...initialState[HISTORY_KEY],
-      tracking,
-      actions,
-      snapshot: state.present,
-    },
+    [HISTORY_KEY]: newHistory,
     present: newPresent,
-    canUndo: canUndo(config, actions),
-    canRedo: canRedo(config, actions),
+    canUndo: canUndo(config, newHistory.actions),
+    canRedo: canRedo(config, newHistory.actions),
+    bookmarks: newHistory.bookmarks,
+    loadStatus: state.loadStatus,
   }
 }
 
@@ -262,12 +553,273 @@ function setTracking<State, Action extends UnknownAction>(
   }
 }
 
+function setLoadStatus<State, Action extends UnknownAction>(
+  state: HistoryState<State, Action>,
+  action: Action,
+): HistoryState<State, Action> {
+  const loadStatus = action.payload as LoadStatus
+
+  return loadStatus === state.loadStatus ? state : { ...state, loadStatus }
+}
+
+function beginGroup<State, Action extends UnknownAction>(
+  state: HistoryState<State, Action>,
+): HistoryState<State, Action> {
+  const history = state[HISTORY_KEY]
+  const { group } = history
+
+  if (group) {
+    // nested groups are merged into the outermost one
+    return {
+      ...state,
+      [HISTORY_KEY]: {
+        ...history,
+        group: { ...group, depth: group.depth + 1 },
+      },
+    }
+  }
+
+  return {
+    ...state,
+    [HISTORY_KEY]: {
+      ...history,
+      group: { id: getNextGroupId(history.actions), depth: 1 },
+    },
+  }
+}
+
+function endGroup<State, Action extends UnknownAction>(
+  state: HistoryState<State, Action>,
+): HistoryState<State, Action> {
+  const history = state[HISTORY_KEY]
+  const { group } = history
+
+  if (!group) {
+    return state
+  }
+
+  return {
+    ...state,
+    [HISTORY_KEY]: {
+      ...history,
+      group: group.depth > 1 ? { ...group, depth: group.depth - 1 } : undefined,
+    },
+  }
+}
+
+/**
+ * Returns whether another undo/redo step should be applied, based on the action payload.
+ * Without a payload, a single step is applied.
+ */
+function getStepCondition<Action extends UnknownAction>(
+  payload: UndoRedoPayload | undefined,
+): (historyAction: HistoryAction<Action>, step: number) => boolean {
+  if (payload === undefined) {
+    return (_, step) => step < 1
+  }
+
+  if ('predicate' in payload) {
+    return (historyAction) => payload.predicate(historyAction)
+  }
+
+  return (_, step) => step < payload.count
+}
+
+function getNextBranchId<Action extends UnknownAction>(
+  branches: HistoryBranch<Action>[],
+): number {
+  return branches.reduce((max, b) => Math.max(max, b.id), 0) + 1
+}
+
+/**
+ * Group ids only need to be unique among the actions currently in history.
+ */
+function getNextGroupId<Action extends UnknownAction>(
+  actions: HistoryAction<Action>[],
+): number {
+  return actions.reduce((max, a) => Math.max(max, a.group ?? 0), 0) + 1
+}
+
+/**
+ * Sets the undone flag of the action at `index` and of the undoable actions in its group.
+ */
+function setUndone<Action extends UnknownAction>(
+  config: UndoableActionsConfig,
+  actions: HistoryAction<Action>[],
+  index: number,
+  undone: boolean,
+): HistoryAction<Action>[] {
+  const { group } = actions[index]
+
+  return actions.map((a, i) =>
+    i === index ||
+    (group !== undefined &&
+      a.group === group &&
+      a.undone !== undone &&
+      isActionUndoable(config, a.action))
+      ? { ...a, undone }
+      : a,
+  )
+}
+
+function getFirstChangedIndex<Action extends UnknownAction>(
+  actions: HistoryAction<Action>[],
+  newActions: HistoryAction<Action>[],
+): number {
+  return newActions.findIndex((a, i) => a !== actions[i])
+}
+
+/**
+ * Folds the oldest actions into the snapshot once `maxHistory` is exceeded.
+ * Undone actions are never folded, so compaction stops at the first one.
+ * Groups are folded whole or not at all, so a group may keep the history above `maxHistory` for a while.
+ */
+function compact<State, Action extends UnknownAction>(
+  reducer: Reducer<State, Action>,
+  config: UndoableActionsConfig,
+  history: History<State, Action>,
+): History<State, Action> {
+  const { actions } = history
+
+  if (config.maxHistory <= 0 || actions.length <= config.maxHistory) {
+    return history
+  }
+
+  const firstUndoneIndex = actions.findIndex((a) => a.undone)
+  let count = Math.min(
+    actions.length - config.maxHistory,
+    firstUndoneIndex === -1 ? actions.length : firstUndoneIndex,
+  )
+  // never stop inside a group, or undoing what is left of it would no longer undo it as a single step
+  while (
+    count > 0 &&
+    actions[count - 1].group !== undefined &&
+    actions[count - 1].group === actions[count]?.group
+  ) {
+    count--
+  }
+
+  if (count === 0) {
+    return history
+  }
+
+  const { present: snapshot } = replay(
+    reducer,
+    config,
+    actions.slice(0, count),
+    history.snapshot,
+    history.checkpoints,
+    count,
+  )
+
+  const compacted = actions.slice(0, count)
+  const branches = history.branches?.filter((b) =>
+    compacted.every((a, i) => a === b.actions[i] || deepEqual(a, b.actions[i])),
+  )
+
+  return {
+    ...history,
+    actions: actions.slice(count),
+    snapshot,
+    checkpoints: history.checkpoints
+      .filter((c) => c.index > count)
+      .map((c) => ({ ...c, index: c.index - count })),
+    // branches forking before the new snapshot can no longer be reached
+    ...(branches && {
+      branches: branches.map((b) => ({
+        ...b,
+        actions: b.actions.slice(count),
+      })),
+    }),
+    // bookmarks are shifted, the ones before the new snapshot are dropped
+    bookmarks: history.bookmarks
+      .filter(
+        (b) =>
+          b.index >= count - 1 &&
+          (b.branch === undefined ||
+            b.branch === history.branch ||
+            branches?.some(({ id }) => id === b.branch)),
+      )
+      .map((b) => ({ ...b, index: b.index - count })),
+  }
+}
+
+/**
+ * Replays the actions from the nearest checkpoint at or before `fromIndex`,
+ * recording new checkpoints along the way.
+ */
 function replay<State, Action extends UnknownAction>(
   reducer: Reducer<State, Action>,
-  newActions: HistoryAction<Action>[],
-  initialState: State,
-): State {
-  return newActions
-    .filter((a) => !a.undone)
-    .reduce((accState, a) => reducer(accState, a.action), initialState)
+  config: UndoableActionsConfig,
+  actions: HistoryAction<Action>[],
+  snapshot: State,
+  checkpoints: Checkpoint<State>[],
+  fromIndex = 0,
+): { present: State; checkpoints: Checkpoint<State>[] } {
+  let newCheckpoints = discardCheckpointsAfter(checkpoints, fromIndex)
+  const start = newCheckpoints.at(-1) ?? { index: 0, state: snapshot }
+
+  let present = start.state
+  for (let i = start.index; i < actions.length; i++) {
+    if (!actions[i].undone) {
+      present = reducer(present, actions[i].action)
+    }
+    newCheckpoints = addCheckpoint(config, newCheckpoints, i + 1, present)
+  }
+
+  return { present, checkpoints: newCheckpoints }
+}
+
+/**
+ * Records a checkpoint after the last action when one is due.
+ * Its state is replayed from the previous checkpoint instead of taken from `present`, which may include changes of
+ * untracked actions that replays drop, so checkpoints never change the result of undo and redo.
+ */
+function addCheckpointAtEnd<State, Action extends UnknownAction>(
+  reducer: Reducer<State, Action>,
+  config: UndoableActionsConfig,
+  actions: HistoryAction<Action>[],
+  snapshot: State,
+  checkpoints: Checkpoint<State>[],
+): Checkpoint<State>[] {
+  const lastIndex = checkpoints.at(-1)?.index ?? 0
+
+  if (
+    config.checkpointInterval <= 0 ||
+    actions.length - lastIndex < config.checkpointInterval
+  ) {
+    return checkpoints
+  }
+
+  return replay(reducer, config, actions, snapshot, checkpoints, lastIndex)
+    .checkpoints
+}
+
+function addCheckpoint<State>(
+  config: UndoableActionsConfig,
+  checkpoints: Checkpoint<State>[],
+  index: number,
+  state: State,
+): Checkpoint<State>[] {
+  const lastIndex = checkpoints.at(-1)?.index ?? 0
+
+  if (
+    config.checkpointInterval <= 0 ||
+    index - lastIndex < config.checkpointInterval
+  ) {
+    return checkpoints
+  }
+
+  return [...checkpoints, { index, state }]
+}
+
+function discardCheckpointsAfter<State>(
+  checkpoints: Checkpoint<State>[],
+  index: number,
+): Checkpoint<State>[] {
+  if ((checkpoints.at(-1)?.index ?? 0) <= index) {
+    return checkpoints
+  }
+
+  return checkpoints.filter((c) => c.index <= index)
 }
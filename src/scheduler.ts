@@ -0,0 +1,150 @@
+import type { UnknownAction } from 'redux'
+import type { ExportedHistory, Persistence } from './types'
+
+type Write = (
+  storageKey: string,
+  history: ExportedHistory<unknown, UnknownAction>,
+) => Promise<void>
+
+interface PendingSave {
+  history: ExportedHistory<unknown, UnknownAction>
+  // when the first of the coalesced saves was scheduled
+  since: number
+  timer?: ReturnType<typeof setTimeout>
+}
+
+export interface SaveScheduler {
+  schedule(
+    storageKey: string,
+    history: ExportedHistory<unknown, UnknownAction>,
+  ): Promise<void>
+  enqueue<T>(storageKey: string, task: () => Promise<T>): Promise<T>
+  cancel(storageKey: string): void
+  flush(): Promise<void>
+}
+
+/**
+ * Queues storage operations per storage key, so they never overlap and run in the order they were requested.
+ *
+ * Saves are delayed following `saveDebounceMs` and `saveThrottleMs`, and coalesced: while a save waits for its
+ * turn, newer histories replace the one it writes, so a burst of actions leads to at most one write after the
+ * current one, always of the newest history.
+ */
+export function createSaveScheduler(
+  {
+    saveDebounceMs = 0,
+    saveThrottleMs = 0,
+  }: Pick<Persistence, 'saveDebounceMs' | 'saveThrottleMs'>,
+  write: Write,
+): SaveScheduler {
+  const pending = new Map<string, PendingSave>()
+  const lastWrites = new Map<string, number>()
+  // last operation queued for each key
+  const tails = new Map<string, Promise<void>>()
+  // saves queued for each key that did not start yet
+  const queued = new Map<string, Promise<void>>()
+
+  const enqueue = <T>(
+    storageKey: string,
+    task: () => Promise<T>,
+  ): Promise<T> => {
+    const previous = tails.get(storageKey)
+    // starts right away when idle, so synchronous storages write before the page unloads
+    const result = previous ? previous.then(task) : task()
+    const tail = result.then(
+      () => undefined,
+      () => undefined,
+    )
+    tails.set(storageKey, tail)
+    void tail.then(() => {
+      if (tails.get(storageKey) === tail) {
+        tails.delete(storageKey)
+      }
+    })
+
+    return result
+  }
+
+  const run = (storageKey: string): Promise<void> => {
+    const alreadyQueued = queued.get(storageKey)
+    if (alreadyQueued) {
+      return alreadyQueued
+    }
+
+    // when idle, the save starts right away instead of being queued
+    const idle = !tails.has(storageKey)
+    const save = enqueue(storageKey, async () => {
+      queued.delete(storageKey)
+      // read when starting, to write the newest history
+      const pendingSave = pending.get(storageKey)
+      if (!pendingSave) {
+        return
+      }
+
+      clearTimeout(pendingSave.timer)
+      pending.delete(storageKey)
+      lastWrites.set(storageKey, Date.now())
+      await write(storageKey, pendingSave.history)
+    })
+    if (!idle) {
+      queued.set(storageKey, save)
+    }
+
+    return save
+  }
+
+  const wait = (storageKey: string, delay: number) => {
+    const save = pending.get(storageKey)
+    if (save) {
+      clearTimeout(save.timer)
+      save.timer = setTimeout(() => void run(storageKey), Math.max(0, delay))
+    }
+  }
+
+  return {
+    schedule(storageKey, history) {
+      const now = Date.now()
+      const previous = pending.get(storageKey)
+      pending.set(storageKey, {
+        history,
+        since: previous?.since ?? now,
+        timer: previous?.timer,
+      })
+
+      if (saveDebounceMs > 0) {
+        // throttling makes sure long bursts are still saved regularly
+        const since = previous?.since ?? now
+        wait(
+          storageKey,
+          saveThrottleMs > 0
+            ? Math.min(saveDebounceMs, since + saveThrottleMs - now)
+            : saveDebounceMs,
+        )
+        return Promise.resolve()
+      }
+
+      if (saveThrottleMs > 0) {
+        const delay =
+          (lastWrites.get(storageKey) ?? -Infinity) + saveThrottleMs - now
+        if (delay > 0) {
+          // a pending save already waits for the end of the interval
+          if (!previous) {
+            wait(storageKey, delay)
+          }
+          return Promise.resolve()
+        }
+      }
+
+      return run(storageKey)
+    },
+    enqueue,
+    cancel(storageKey) {
+      clearTimeout(pending.get(storageKey)?.timer)
+      pending.delete(storageKey)
+    },
+    async flush() {
+      const storageKeys = new Set([...pending.keys(), ...tails.keys()])
+      await Promise.all(Array.from(storageKeys, run))
+    },
+  }
+}
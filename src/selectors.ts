@@ -0,0 +1,154 @@
+import type { UnknownAction } from 'redux'
+import type {
+  HistoryAction,
+  HistoryState,
+  PartialUndoableActionsConfig,
+} from './types'
+import { HISTORY_KEY } from './actions'
+import { getConfig } from './config'
+import { isActionUndoable } from './utils'
+
+/**
+ * Selectors to inspect the history of a wrapped state.
+ * They receive the wrapped state (e.g. `state.counter`), not the root state.
+ *
+ * Derived values are cached per history, so the same reference is returned
+ * until the history changes, which makes them safe to use with `useSelector`
+ * and as inputs of memoized selectors.
+ */
+export interface HistorySelectors {
+  /**
+   * Selects every action in history, including undone ones.
+   */
+  selectActions: <State, Action extends UnknownAction>(
+    state: HistoryState<State, Action>,
+  ) => HistoryAction<Action>[]
+  /**
+   * Selects the state the actions are replayed on.
+   */
+  selectSnapshot: <State, Action extends UnknownAction>(
+    state: HistoryState<State, Action>,
+  ) => State
+  /**
+   * Selects the applied actions, oldest first.
+   */
+  selectPast: <State, Action extends UnknownAction>(
+    state: HistoryState<State, Action>,
+  ) => HistoryAction<Action>[]
+  /**
+   * Selects the undone actions, in the order they would be redone.
+   */
+  selectFuture: <State, Action extends UnknownAction>(
+    state: HistoryState<State, Action>,
+  ) => HistoryAction<Action>[]
+  /**
+   * Selects how many undo steps are available. A group counts as a single step.
+   */
+  selectUndoableCount: <State, Action extends UnknownAction>(
+    state: HistoryState<State, Action>,
+  ) => number
+  /**
+   * Selects how many redo steps are available. A group counts as a single step.
+   */
+  selectRedoableCount: <State, Action extends UnknownAction>(
+    state: HistoryState<State, Action>,
+  ) => number
+  /**
+   * Selects the action the next undo would revert, if any.
+   */
+  selectNextUndoAction: <State, Action extends UnknownAction>(
+    state: HistoryState<State, Action>,
+  ) => HistoryAction<Action> | undefined
+  /**
+   * Selects the action the next redo would apply again, if any.
+   */
+  selectNextRedoAction: <State, Action extends UnknownAction>(
+    state: HistoryState<State, Action>,
+  ) => HistoryAction<Action> | undefined
+}
+
+/**
+ * Creates history selectors matching the given configuration.
+ * Pass the same `undoableActions` given to the reducer, so the counts and next actions match undo and redo.
+ *
+ * @param customConfig - Optional configuration, only `undoableActions` is used.
+ * @returns The history selectors.
+ *
+ * @example
+ * const counterSelectors = createSelectors({ undoableActions: ['counter/increment'] })
+ * const selectUndoableCount = (state: RootState) => counterSelectors.selectUndoableCount(state.counter)
+ */
+export function createSelectors(
+  customConfig?: PartialUndoableActionsConfig,
+): HistorySelectors {
+  const config = getConfig(customConfig)
+
+  const undoable = (a: HistoryAction<UnknownAction>) =>
+    isActionUndoable(config, a.action)
+
+  return {
+    selectActions: (state) => state[HISTORY_KEY].actions,
+    selectSnapshot: (state) => state[HISTORY_KEY].snapshot,
+    selectPast: memoizeByActions((actions) =>
+      actions.filter((a) => !a.undone),
+    ) as HistorySelectors['selectPast'],
+    selectFuture: memoizeByActions((actions) =>
+      actions.filter((a) => a.undone),
+    ) as HistorySelectors['selectFuture'],
+    selectUndoableCount: memoizeByActions((actions) =>
+      countSteps(actions.filter((a) => !a.undone && undoable(a))),
+    ) as HistorySelectors['selectUndoableCount'],
+    selectRedoableCount: memoizeByActions((actions) =>
+      countSteps(actions.filter((a) => a.undone && undoable(a))),
+    ) as HistorySelectors['selectRedoableCount'],
+    selectNextUndoAction: memoizeByActions((actions) =>
+      actions.findLast((a) => !a.undone && undoable(a)),
+    ) as HistorySelectors['selectNextUndoAction'],
+    selectNextRedoAction: memoizeByActions((actions) =>
+      actions.find((a) => a.undone && undoable(a)),
+    ) as HistorySelectors['selectNextRedoAction'],
+  }
+}
+
+/**
+ * History selectors for reducers using the default `undoableActions`,
+ * where every tracked action is undoable.
+ * Use {@link createSelectors} otherwise.
+ */
+export const selectors: HistorySelectors = createSelectors()
+
+/**
+ * Caches the selected value per `actions` array, which is replaced on every history change.
+ */
+function memoizeByActions(
+  select: (actions: HistoryAction<UnknownAction>[]) => unknown,
+) {
+  const cache = new WeakMap<object, unknown>()
+
+  return (state: HistoryState<unknown, UnknownAction>) => {
+    const { actions } = state[HISTORY_KEY]
+
+    if (!cache.has(actions)) {
+      cache.set(actions, select(actions))
+    }
+
+    return cache.get(actions)
+  }
+}
+
+function countSteps<Action extends UnknownAction>(
+  actions: HistoryAction<Action>[],
+): number {
+  const groups = new Set<number>()
+
+  return actions.filter((a) => {
+    if (a.group === undefined) {
+      return true
+    }
+    if (groups.has(a.group)) {
+      return false
+    }
+    groups.add(a.group)
+    return true
+  }).length
+}
@@ -0,0 +1,265 @@
+import type { Serializer } from './types'
+
+/**
+ * Thrown by `taggedJsonSerializer` when a value can't be serialized without losing data.
+ * `path` points to the offending value, e.g. `actions[0].action.payload.onClick`.
+ */
+export class SerializationError extends Error {
+  override name = 'SerializationError'
+
+  constructor(
+    message: string,
+    public readonly path: string,
+  ) {
+    super(`${message} at ${path || '<root>'}`)
+  }
+}
+
+/**
+ * Thrown by `taggedJsonSerializer` when a stored string can't be deserialized.
+ */
+export class DeserializationError extends Error {
+  override name = 'DeserializationError'
+}
+
+/**
+ * Plain JSON serializer, the default one.
+ * `Date`s become strings, `Map`s and `Set`s become empty objects and `BigInt`s throw.
+ */
+export const jsonSerializer: Serializer = {
+  serialize: (value) => JSON.stringify(value),
+  deserialize: (raw) => JSON.parse(raw) as unknown,
+}
+
+const TAG = '$t'
+
+const typedArrays = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+}
+
+type TypedArrayName = keyof typeof typedArrays
+
+/**
+ * JSON serializer that round-trips `Date`, `Map`, `Set`, `BigInt`, typed arrays, `undefined`, `NaN`, `Infinity`
+ * and `-0`, by replacing them with tagged objects like `{ "$t": "Date", "v": 0 }`.
+ *
+ * Values that can't be restored, such as functions, symbols, class instances and circular references,
+ * throw a `SerializationError` instead of being silently dropped.
+ * Unknown tags, malformed tagged values and invalid JSON throw a `DeserializationError`.
+ */
+export const taggedJsonSerializer: Serializer = {
+  serialize: (value) => JSON.stringify(encode(value, '', new Set())),
+  deserialize: (raw) => {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(raw)
+    } catch (e) {
+      throw new DeserializationError('invalid JSON', { cause: e })
+    }
+
+    return decode(parsed)
+  },
+}
+
+function encode(value: unknown, path: string, seen: Set<object>): unknown {
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return value
+    case 'number':
+      return Number.isFinite(value) && !Object.is(value, -0)
+        ? value
+        : { [TAG]: 'Number', v: String(Object.is(value, -0) ? '-0' : value) }
+    case 'bigint':
+      return { [TAG]: 'BigInt', v: value.toString() }
+    case 'undefined':
+      return { [TAG]: 'undefined' }
+    case 'function':
+    case 'symbol':
+      throw new SerializationError(`can't serialize a ${typeof value}`, path)
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return null
+  }
+
+  if (seen.has(value)) {
+    throw new SerializationError("can't serialize a circular reference", path)
+  }
+  seen.add(value)
+
+  try {
+    return encodeObject(value, path, seen)
+  } finally {
+    seen.delete(value)
+  }
+}
+
+function encodeObject(value: object, path: string, seen: Set<object>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item: unknown, i) =>
+      encode(item, `${path}[${String(i)}]`, seen),
+    )
+  }
+
+  if (value instanceof Date) {
+    const time = value.getTime()
+    return { [TAG]: 'Date', v: Number.isNaN(time) ? null : time }
+  }
+
+  if (value instanceof Map) {
+    return {
+      [TAG]: 'Map',
+      v: Array.from(value, ([key, item]: [unknown, unknown], i) => [
+        encode(key, `${path}<key ${String(i)}>`, seen),
+        encode(item, `${path}<value ${String(i)}>`, seen),
+      ]),
+    }
+  }
+
+  if (value instanceof Set) {
+    return {
+      [TAG]: 'Set',
+      v: Array.from(value, (item: unknown, i) =>
+        encode(item, `${path}<value ${String(i)}>`, seen),
+      ),
+    }
+  }
+
+  const typedArray = getTypedArrayName(value)
+  if (typedArray) {
+    return {
+      [TAG]: typedArray,
+      v: Array.from(value as ArrayLike<number | bigint>, (item) =>
+        typeof item === 'bigint' ? item.toString() : item,
+      ),
+    }
+  }
+
+  const prototype: unknown = Object.getPrototypeOf(value)
+  if (prototype !== Object.prototype && prototype !== null) {
+    throw new SerializationError(
+      `can't serialize an instance of ${value.constructor.name || 'an unknown class'}`,
+      path,
+    )
+  }
+
+  const encoded = Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      encode(item, path ? `${path}.${key}` : key, seen),
+    ]),
+  )
+
+  // objects with a tag-like key are wrapped, so they are not confused with tagged values
+  return TAG in encoded ? { [TAG]: 'Object', v: encoded } : encoded
+}
+
+function getTypedArrayName(value: object): TypedArrayName | undefined {
+  return (Object.keys(typedArrays) as TypedArrayName[]).find(
+    (name) => value instanceof typedArrays[name],
+  )
+}
+
+function decode(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decode)
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return value
+  }
+
+  if (!(TAG in value)) {
+    return decodeEntries(value)
+  }
+
+  const { [TAG]: tag, v } = value as { [TAG]: unknown; v: unknown }
+
+  switch (tag) {
+    case 'Object':
+      if (typeof v !== 'object' || v === null) {
+        throw invalidValue(tag)
+      }
+      return decodeEntries(v)
+    case 'undefined':
+      return undefined
+    case 'Number':
+      if (typeof v !== 'string') {
+        throw invalidValue(tag)
+      }
+      return Number(v)
+    case 'BigInt':
+      if (!isBigIntString(v)) {
+        throw invalidValue(tag)
+      }
+      return BigInt(v)
+    case 'Date':
+      if (v !== null && typeof v !== 'number') {
+        throw invalidValue(tag)
+      }
+      return new Date(v ?? NaN)
+    case 'Map':
+      if (!isArrayOf(v, isEntry)) {
+        throw invalidValue(tag)
+      }
+      return new Map(v.map(([key, item]) => [decode(key), decode(item)]))
+    case 'Set':
+      if (!Array.isArray(v)) {
+        throw invalidValue(tag)
+      }
+      return new Set(v.map(decode))
+    case 'BigInt64Array':
+    case 'BigUint64Array':
+      if (!isArrayOf(v, isBigIntString)) {
+        throw invalidValue(tag)
+      }
+      return typedArrays[tag].from(v.map((item) => BigInt(item)))
+  }
+
+  if (typeof tag === 'string' && Object.hasOwn(typedArrays, tag)) {
+    if (!isArrayOf(v, (item) => typeof item === 'number')) {
+      throw invalidValue(tag)
+    }
+    return typedArrays[
+      tag as Exclude<TypedArrayName, 'BigInt64Array' | 'BigUint64Array'>
+    ].from(v)
+  }
+
+  throw new DeserializationError(`unknown tag ${JSON.stringify(tag)}`)
+}
+
+function invalidValue(tag: string): DeserializationError {
+  return new DeserializationError(`invalid value for tag "${tag}"`)
+}
+
+function isArrayOf<T>(
+  value: unknown,
+  isItem: (item: unknown) => item is T,
+): value is T[] {
+  return Array.isArray(value) && value.every(isItem)
+}
+
+function isEntry(value: unknown): value is [unknown, unknown] {
+  return Array.isArray(value) && value.length === 2
+}
+
+function isBigIntString(value: unknown): value is string {
+  return typeof value === 'string' && /^-?\d+$/.test(value)
+}
+
+function decodeEntries(value: object): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, decode(item)]),
+  )
+}
@@ -0,0 +1,231 @@
+import type { Middleware, Reducer, UnknownAction } from 'redux'
+import type {
+  HistoryState,
+  PartialUndoableActionsConfig,
+  Persistence,
+  UndoableActionsConfig,
+} from './types'
+import type { HistoryActionCreators } from './actions'
+import { createUndoableInstance } from './instance'
+
+/**
+ * The parts of a Redux Toolkit slice used by `createUndoableSlice`.
+ * @template State - The state of the slice.
+ * @template Name - The name of the slice.
+ * @template ReducerPath - Where the slice lives in the root state, its name unless set otherwise.
+ * @template CaseActions - The action creators of the slice.
+ * @template Selectors - The selectors of the slice, reading the root state.
+ */
+export interface SliceLike<
+  State,
+  Name extends string = string,
+  ReducerPath extends string = Name,
+  CaseActions extends object = object,
+  Selectors extends object = object,
+> {
+  name: Name
+  reducerPath?: ReducerPath
+  reducer: Reducer<State>
+  actions: CaseActions
+  selectors?: Selectors
+  getSelectors?: (selectState: (rootState: never) => State) => object
+}
+
+/**
+ * Slice selectors reading the wrapped state instead of the slice state.
+ * @template Selectors - The selectors of the slice.
+ * @template RootState - The state the selectors receive.
+ */
+export type UndoableSliceSelectors<Selectors, RootState> = {
+  [K in keyof Selectors]: Selectors[K] extends (
+    rootState: never,
+    ...args: infer Args
+  ) => infer Result
+    ? (rootState: RootState, ...args: Args) => Result
+    : never
+}
+
+/**
+ * A Redux Toolkit slice wrapped by `createUndoableSlice`.
+ * @template State - The state of the slice.
+ * @template Name - The name of the slice.
+ * @template ReducerPath - Where the slice lives in the root state.
+ * @template CaseActions - The action creators of the slice.
+ * @template Selectors - The selectors of the slice.
+ */
+export interface UndoableSlice<
+  State,
+  Name extends string = string,
+  ReducerPath extends string = Name,
+  CaseActions extends object = object,
+  Selectors extends object = object,
+> {
+  name: Name
+  reducerPath: ReducerPath
+  /**
+   * The slice reducer, wrapped with undo/redo.
+   */
+  reducer: Reducer<HistoryState<State, UnknownAction>>
+  /**
+   * The slice action creators, along with history action creators dispatching the slice's internal actions.
+   */
+  actions: CaseActions & HistoryActionCreators
+  /**
+   * Internal action types of the slice, prefixed with its name, e.g. `counter/undo`.
+   */
+  internalActions: UndoableActionsConfig['internalActions']
+  /**
+   * The slice selectors, reading `present` from `rootState[reducerPath]`.
+   */
+  selectors: UndoableSliceSelectors<
+    Selectors,
+    Record<ReducerPath, HistoryState<State, UnknownAction>>
+  >
+  /**
+   * Returns the slice selectors, reading `present` from the wrapped state, or from the wrapped state selected by
+   * `selectHistory`.
+   */
+  getSelectors: {
+    (): UndoableSliceSelectors<Selectors, HistoryState<State, UnknownAction>>
+    <RootState>(
+      selectHistory: (
+        rootState: RootState,
+      ) => HistoryState<State, UnknownAction>,
+    ): UndoableSliceSelectors<Selectors, RootState>
+  }
+}
+
+/**
+ * The action types of the slice action creators, read from their `type`, or any action type when they are not known.
+ * @template CaseActions - The action creators of the slice.
+ */
+export type SliceActionType<CaseActions> = [
+  CaseActionType<CaseActions>,
+] extends [never]
+  ? UnknownAction['type']
+  : CaseActionType<CaseActions>
+
+type CaseActionType<CaseActions> = {
+  [K in keyof CaseActions]: CaseActions[K] extends {
+    type: infer Type extends UnknownAction['type']
+  }
+    ? Type
+    : never
+}[keyof CaseActions]
+
+/**
+ * Configuration of `createUndoableSlice`. Internal actions are derived from the slice name.
+ * @template Type - The action types accepted by `trackedActions`, `undoableActions` and `trackAfterAction`.
+ */
+export type UndoableSliceConfig<
+  Type extends UnknownAction['type'] = UnknownAction['type'],
+> = Omit<PartialUndoableActionsConfig<Type>, 'internalActions'>
+
+/**
+ * Wraps a Redux Toolkit slice with undo/redo.
+ *
+ * The internal actions are prefixed with the slice name (`counter/undo`, `counter/redo`, ...), so several undoable
+ * slices never collide, and the returned `actions` include history action creators matching them.
+ * Slice selectors are wrapped to read the `present` state.
+ *
+ * @param slice - The slice, as returned by `createSlice`.
+ * @param customConfig - Optional configuration. With `persistence`, a persistence middleware is returned as well.
+ * Action types are checked against the types of the slice actions; match actions of other slices with their action
+ * creators or a `RegExp`.
+ * @returns The wrapped slice.
+ * @throws {Error} If the slice has a case reducer named like a history action, e.g. `undo`.
+ *
+ * @example
+ * const counter = createUndoableSlice(counterSlice, {
+ *   trackedActions: [counterSlice.actions.increment.type],
+ * })
+ *
+ * const store = configureStore({ reducer: { [counter.reducerPath]: counter.reducer } })
+ * store.dispatch(counter.actions.increment())
+ * store.dispatch(counter.actions.undo())
+ * counter.selectors.selectCount(store.getState())
+ */
+export function createUndoableSlice<
+  State,
+  Name extends string,
+  ReducerPath extends string,
+  CaseActions extends object,
+  Selectors extends object,
+>(
+  slice: SliceLike<State, Name, ReducerPath, CaseActions, Selectors>,
+  customConfig: UndoableSliceConfig<SliceActionType<CaseActions>> & {
+    persistence: Persistence
+  },
+): UndoableSlice<State, Name, ReducerPath, CaseActions, Selectors> & {
+  middleware: Middleware
+  flush: () => Promise<void>
+  dispose: () => void
+}
+export function createUndoableSlice<
+  State,
+  Name extends string,
+  ReducerPath extends string,
+  CaseActions extends object,
+  Selectors extends object,
+>(
+  slice: SliceLike<State, Name, ReducerPath, CaseActions, Selectors>,
+  customConfig?: UndoableSliceConfig<SliceActionType<CaseActions>> & {
+    persistence?: undefined
+  },
+): UndoableSlice<State, Name, ReducerPath, CaseActions, Selectors>
+export function createUndoableSlice<
+  State,
+  Name extends string,
+  ReducerPath extends string,
+  CaseActions extends object,
+  Selectors extends object,
+>(
+  slice: SliceLike<State, Name, ReducerPath, CaseActions, Selectors>,
+  customConfig?: UndoableSliceConfig<SliceActionType<CaseActions>> & {
+    persistence?: Persistence
+  },
+): UndoableSlice<State, Name, ReducerPath, CaseActions, Selectors> & {
+  middleware?: Middleware
+  flush?: () => Promise<void>
+  dispose?: () => void
+}
+export function createUndoableSlice<State>(
+  slice: SliceLike<State>,
+  customConfig?: UndoableSliceConfig & { persistence?: Persistence },
+): UndoableSlice<State> & {
+  middleware?: Middleware
+  flush?: () => Promise<void>
+  dispose?: () => void
+} {
+  const { reducer, internalActions, actions, middleware, flush, dispose } =
+    createUndoableInstance(slice.name, slice.reducer, customConfig)
+  const shadowed = Object.keys(actions).find((key) => key in slice.actions)
+  if (shadowed !== undefined) {
+    throw new Error(
+      `The ${slice.name} slice already has a "${shadowed}" action, rename it to make room for the history action.`,
+    )
+  }
+
+  const reducerPath = slice.reducerPath ?? slice.name
+  const getSelectors = (
+    selectHistory = (rootState: unknown) =>
+      rootState as HistoryState<State, UnknownAction>,
+  ) =>
+    slice.getSelectors?.((rootState) => selectHistory(rootState).present) ?? {}
+
+  return {
+    ...(middleware && { middleware, flush, dispose }),
+    name: slice.name,
+    reducerPath,
+    reducer,
+    actions: { ...slice.actions, ...actions },
+    internalActions,
+    selectors: getSelectors(
+      (rootState) =>
+        (rootState as Record<string, HistoryState<State, UnknownAction>>)[
+          reducerPath
+        ],
+    ),
+    getSelectors,
+  }
+}
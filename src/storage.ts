@@ -1,54 +1,187 @@
 import type { UnknownAction } from 'redux'
-import type { ExportedHistory, StoragePersistor } from './types'
+import type {
+  ExportedHistory,
+  HistoryDelta,
+  HistoryMigration,
+  IncrementalStoragePersistor,
+  Persistence,
+  PersistenceErrorKind,
+  StoragePersistor,
+} from './types'
+import { jsonSerializer } from './serializer'
+
+/**
+ * Reported through the `onQuotaExceeded` or `onError` persistence options when the storage is full and the history
+ * can't be saved. The original error is available as `cause`.
+ */
+export class StorageQuotaError extends Error {
+  override name = 'StorageQuotaError'
+}
+
+/**
+ * Reported through the `onError` persistence option, as a `'load'` error, when the stored history was saved with a
+ * version greater than the `version` option, e.g. by a newer release of the app. The history is not loaded.
+ */
+export class UnknownVersionError extends Error {
+  override name = 'UnknownVersionError'
+
+  constructor(public readonly version: number) {
+    super(`history saved with unknown version ${String(version)}`)
+  }
+}
+
+type StoredHistory = ExportedHistory<unknown, UnknownAction> & {
+  version?: number
+}
 
 export const saveHistory = async <State, Action extends UnknownAction>(
-  storage: StoragePersistor,
-  storageKey: string | false,
+  {
+    storage,
+    version = 0,
+    serializer = jsonSerializer,
+  }: Pick<Persistence, 'storage' | 'version' | 'serializer'>,
+  storageKey: string,
   history: ExportedHistory<State, Action>,
 ) => {
-  if (storageKey === false) {
-    return
-  }
+  const value = serializer.serialize({ version, ...history })
 
-  try {
-    await storage.setItem(storageKey, JSON.stringify(history))
-  } catch (e) {
-    console.warn('failed to save history to storage', e)
-  }
+  await withQuotaError(async () => {
+    // deltas appended so far were made on top of the previous history
+    if (isIncrementalStorage(storage)) {
+      await storage.truncate(storageKey, 0)
+    }
+    await storage.setItem(storageKey, value)
+  })
 }
 
-export const removeHistory = async (
-  storage: StoragePersistor,
-  storageKey: string | false,
+export const appendHistory = async <Action extends UnknownAction>(
+  {
+    storage,
+    serializer = jsonSerializer,
+  }: Pick<Persistence, 'serializer'> & {
+    storage: IncrementalStoragePersistor
+  },
+  storageKey: string,
+  delta: HistoryDelta<Action>,
 ) => {
-  if (storageKey === false) {
-    return
-  }
+  const entry = serializer.serialize(delta)
 
-  try {
-    await storage.removeItem(storageKey)
-  } catch (e) {
-    console.warn('failed to remove history from storage', e)
-  }
+  await withQuotaError(() => storage.append(storageKey, [entry]))
+}
+
+export const removeHistory = async (
+  { storage }: Pick<Persistence, 'storage'>,
+  storageKey: string,
+) => {
+  await storage.removeItem(storageKey)
 }
 
 export const loadHistory = async <State, Action extends UnknownAction>(
-  storage: StoragePersistor,
-  storageKey: string | false,
+  {
+    storage,
+    version = 0,
+    migrations = {},
+    serializer = jsonSerializer,
+  }: Pick<Persistence, 'storage' | 'version' | 'migrations' | 'serializer'>,
+  storageKey: string,
 ): Promise<ExportedHistory<State, Action> | undefined> => {
-  if (storageKey === false) {
+  const raw = await storage.getItem(storageKey)
+  if (!raw) {
     return undefined
   }
 
-  try {
-    const raw = await storage.getItem(storageKey)
-    if (!raw) {
-      return undefined
+  const history = serializer.deserialize(raw) as StoredHistory
+  if (isIncrementalStorage(storage)) {
+    for (const entry of await storage.getEntries(storageKey)) {
+      const { from, actions } = serializer.deserialize(entry) as HistoryDelta
+      history.actions = [...history.actions.slice(0, from), ...actions]
     }
+  }
+
+  return migrateHistory(history, version, migrations) as ExportedHistory<
+    State,
+    Action
+  >
+}
+
+/**
+ * Reports a failed storage operation to `onQuotaExceeded` for quota errors, or to `onError`.
+ * Without callbacks, the error is logged.
+ */
+export const reportError = (
+  {
+    onQuotaExceeded,
+    onError,
+  }: Pick<Persistence, 'onQuotaExceeded' | 'onError'>,
+  kind: PersistenceErrorKind,
+  error: unknown,
+  storageKey: string,
+) => {
+  if (onQuotaExceeded && error instanceof StorageQuotaError) {
+    onQuotaExceeded(error, storageKey)
+  } else if (onError) {
+    onError(kind, error, storageKey)
+  } else {
+    console.warn(errorMessages[kind], error)
+  }
+}
+
+/**
+ * Runs the migrations between the stored version (exclusive) and the current one (inclusive), in order.
+ * Throws an `UnknownVersionError` for histories saved by an unknown, newer version.
+ */
+export const migrateHistory = (
+  storedHistory: StoredHistory,
+  version: number,
+  migrations: Record<number, HistoryMigration>,
+): ExportedHistory<unknown, UnknownAction> => {
+  const { version: storedVersion = 0, ...history } = storedHistory
+
+  if (storedVersion > version) {
+    throw new UnknownVersionError(storedVersion)
+  }
+
+  return Object.entries(migrations)
+    .map(([key, migrate]) => [Number(key), migrate] as const)
+    .filter(([key]) => key > storedVersion && key <= version)
+    .sort(([a], [b]) => a - b)
+    .reduce((migrated, [, migrate]) => migrate(migrated), history)
+}
+
+export function isIncrementalStorage(
+  storage: StoragePersistor,
+): storage is IncrementalStoragePersistor {
+  return 'append' in storage && 'truncate' in storage && 'getEntries' in storage
+}
+
+const errorMessages: Record<PersistenceErrorKind, string> = {
+  load: 'failed to load history from storage',
+  save: 'failed to save history to storage',
+  remove: 'failed to remove history from storage',
+  sync: 'failed to sync history with other tabs',
+}
 
-    return JSON.parse(raw) as ExportedHistory<State, Action>
+async function withQuotaError(write: () => Promise<void>) {
+  try {
+    await write()
   } catch (e) {
-    console.warn('failed to load history from storage', e)
-    return undefined
+    throw isQuotaExceededError(e)
+      ? new StorageQuotaError('storage quota exceeded', { cause: e })
+      : e
+  }
+}
+
+// names and legacy codes used by browsers for Web Storage and IndexedDB quota errors
+function isQuotaExceededError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false
   }
+
+  const { name, code } = error as { name?: unknown; code?: unknown }
+  return (
+    name === 'QuotaExceededError' ||
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    code === 22 ||
+    code === 1014
+  )
 }
@@ -0,0 +1,271 @@
+import type { UnknownAction } from 'redux'
+import type { WebStorage } from './adapters'
+import type { ExportedHistory, Serializer, SyncTransport } from './types'
+import { deepEqual } from './utils'
+
+/**
+ * The parts of the `BroadcastChannel` API used by `createBroadcastChannelTransport`.
+ */
+export interface BroadcastChannelLike {
+  postMessage(message: unknown): void
+  addEventListener(
+    type: 'message',
+    listener: (event: { data: unknown }) => void,
+  ): void
+  removeEventListener(
+    type: 'message',
+    listener: (event: { data: unknown }) => void,
+  ): void
+}
+
+/**
+ * The parts of `window` used by `createStorageEventTransport` to listen to `storage` events.
+ */
+export interface StorageEventTarget {
+  addEventListener(
+    type: 'storage',
+    listener: (event: { key: string | null; newValue: string | null }) => void,
+  ): void
+  removeEventListener(
+    type: 'storage',
+    listener: (event: { key: string | null; newValue: string | null }) => void,
+  ): void
+}
+
+/**
+ * Reported through the `onError` persistence option when the `'reject'` conflict strategy refuses a change made
+ * at the same time in another tab.
+ */
+export class SyncConflictError extends Error {
+  override name = 'SyncConflictError'
+}
+
+/**
+ * Change broadcast to the other tabs. `base` is the change it was made on top of, to detect concurrent changes.
+ * Without `history`, the history was reset.
+ */
+export interface SyncMessage {
+  storageKey: string
+  id: string
+  base?: string
+  time: number
+  history?: ExportedHistory<unknown, UnknownAction>
+}
+
+/**
+ * Creates a transport sending messages to the tabs of the same origin through a `BroadcastChannel`.
+ *
+ * @param name - Name of the channel, shared by all tabs.
+ * @param createChannel - Optional factory of the channel. Defaults to `new BroadcastChannel(name)`.
+ * @returns A transport to be used in the `sync` persistence option.
+ *
+ * @example
+ * sync: {
+ *   transport: createBroadcastChannelTransport('my-app-history'),
+ * }
+ */
+export function createBroadcastChannelTransport(
+  name: string,
+  createChannel: (name: string) => BroadcastChannelLike = (channelName) => {
+    const { BroadcastChannel } = globalThis as unknown as {
+      BroadcastChannel?: new (name: string) => BroadcastChannelLike
+    }
+    if (BroadcastChannel === undefined) {
+      throw new Error('BroadcastChannel is not available')
+    }
+
+    return new BroadcastChannel(channelName)
+  },
+): SyncTransport {
+  // opened on first use, so transports can be created where BroadcastChannel is missing, e.g. during SSR
+  let channel: BroadcastChannelLike | undefined
+
+  return {
+    post(message) {
+      channel ??= createChannel(name)
+      channel.postMessage(message)
+    },
+    subscribe(listener) {
+      channel ??= createChannel(name)
+      const onMessage = ({ data }: { data: unknown }) => {
+        if (typeof data === 'string') {
+          listener(data)
+        }
+      }
+      channel.addEventListener('message', onMessage)
+
+      return () => {
+        channel?.removeEventListener('message', onMessage)
+      }
+    },
+  }
+}
+
+/**
+ * Creates a transport sending messages to the tabs of the same origin through `storage` events, for browsers
+ * without `BroadcastChannel`. Each message is briefly written to the Web Storage under `key`.
+ *
+ * @param key - Web Storage key used to carry the messages, shared by all tabs.
+ * @param options - Optional Web Storage and event target. Default to `localStorage` and `window`.
+ * @returns A transport to be used in the `sync` persistence option.
+ *
+ * @example
+ * sync: {
+ *   transport: createStorageEventTransport('my-app-history-sync'),
+ * }
+ */
+export function createStorageEventTransport(
+  key: string,
+  {
+    storage = (globalThis as { localStorage?: WebStorage }).localStorage,
+    target = globalThis as Partial<StorageEventTarget>,
+  }: { storage?: WebStorage; target?: Partial<StorageEventTarget> } = {},
+): SyncTransport {
+  return {
+    post(message) {
+      if (storage === undefined) {
+        throw new Error('Web Storage is not available')
+      }
+
+      // other tabs get a storage event for each write, removing it right away keeps the storage clean
+      storage.setItem(key, message)
+      storage.removeItem(key)
+    },
+    subscribe(listener) {
+      const onStorage = (event: {
+        key: string | null
+        newValue: string | null
+      }) => {
+        if (event.key === key && event.newValue !== null) {
+          listener(event.newValue)
+        }
+      }
+      target.addEventListener?.('storage', onStorage)
+
+      return () => {
+        target.removeEventListener?.('storage', onStorage)
+      }
+    },
+  }
+}
+
+export function stringifySyncMessage(
+  serializer: Serializer,
+  { history, ...message }: SyncMessage,
+): string {
+  // the history goes through the persistence serializer, so it round-trips like in storage
+  return JSON.stringify({
+    ...message,
+    ...(history && { history: serializer.serialize(history) }),
+  })
+}
+
+/**
+ * Returns undefined for messages that were not sent by the persistence middleware.
+ * The history is left serialized.
+ */
+export function parseSyncMessage(
+  raw: string,
+): (Omit<SyncMessage, 'history'> & { history?: string }) | undefined {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    return undefined
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    return undefined
+  }
+
+  const { storageKey, id, time, history } = parsed as Record<string, unknown>
+  if (
+    typeof storageKey !== 'string' ||
+    typeof id !== 'string' ||
+    typeof time !== 'number' ||
+    (history !== undefined && typeof history !== 'string')
+  ) {
+    return undefined
+  }
+
+  return parsed as Omit<SyncMessage, 'history'> & { history?: string }
+}
+
+let changeCount = 0
+
+/**
+ * Returns a unique id for a broadcast change.
+ * `crypto.randomUUID` is only available in secure contexts, plain-HTTP pages get a random id instead.
+ */
+export function createChangeId(): string {
+  const { crypto } = globalThis as {
+    crypto?: { randomUUID?: () => string }
+  }
+  if (crypto?.randomUUID !== undefined) {
+    return crypto.randomUUID()
+  }
+
+  changeCount++
+  return `${Date.now().toString(36)}-${changeCount.toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
+/**
+ * Orders changes the same way in every tab: the latest one is the greatest, ids break ties.
+ */
+export function isLaterChange(
+  change: Pick<SyncMessage, 'id' | 'time'>,
+  other: Pick<SyncMessage, 'id' | 'time'>,
+): boolean {
+  return change.time === other.time
+    ? change.id > other.id
+    : change.time > other.time
+}
+
+/**
+ * Keeps the actions both histories share, followed by the new actions of `earlier`, then the ones of `later`.
+ * Shared actions are compared without their `undone` and `group` flags, which are taken from `later`.
+ * Returns undefined when more than the actions differ.
+ */
+export function mergeHistories(
+  earlier: ExportedHistory<unknown, UnknownAction>,
+  later: ExportedHistory<unknown, UnknownAction>,
+): ExportedHistory<unknown, UnknownAction> | undefined {
+  if (
+    earlier.branches !== undefined ||
+    later.branches !== undefined ||
+    !deepEqual(earlier.snapshot, later.snapshot) ||
+    !deepEqual(earlier.bookmarks ?? [], later.bookmarks ?? [])
+  ) {
+    return undefined
+  }
+
+  let shared = 0
+  while (
+    shared < earlier.actions.length &&
+    shared < later.actions.length &&
+    deepEqual(earlier.actions[shared]?.action, later.actions[shared]?.action)
+  ) {
+    shared++
+  }
+
+  const actions = [
+    ...later.actions.slice(0, shared),
+    ...earlier.actions.slice(shared),
+    ...later.actions.slice(shared),
+  ]
+
+  // like a new action clears the redo stack, undone actions before a new applied one are dropped,
+  // so a redo never applies an action again after the ones tracked since
+  const lastNew = actions.findLastIndex(
+    (historyAction, i) => i >= shared && !historyAction.undone,
+  )
+  const merged = actions.filter(
+    (historyAction, i) => !historyAction.undone || i > lastNew,
+  )
+  if (merged.length !== actions.length && (later.bookmarks ?? []).length > 0) {
+    // bookmarks point at positions that no longer exist
+    return undefined
+  }
+
+  return { ...later, actions: merged }
+}
@@ -0,0 +1,185 @@
+import type { IncrementalStoragePersistor, StoragePersistor } from './types'
+import { isIncrementalStorage } from './storage'
+
+const COMPRESSED_PREFIX = 'gz:'
+const ENCRYPTED_PREFIX = 'aes:'
+const IV_LENGTH = 12
+
+// not a global type without the DOM lib
+type CryptoKey = Awaited<ReturnType<typeof crypto.subtle.importKey>>
+
+/**
+ * Wraps a storage to gzip values before storing them, using the `CompressionStream` API.
+ * Compressed values are stored as base64 strings.
+ *
+ * Values stored before compression was enabled are read as they are.
+ * Entries appended to an `IncrementalStoragePersistor` are compressed too.
+ *
+ * @param storage - The storage to wrap.
+ * @returns A storage compressing values.
+ *
+ * @example
+ * persistence: {
+ *   storage: withCompression(myPersistor),
+ * }
+ */
+export function withCompression(storage: StoragePersistor): StoragePersistor {
+  return transformStorage(storage, {
+    encode: async (_, value) => COMPRESSED_PREFIX + (await compress(value)),
+    decode: (_, value) =>
+      value.startsWith(COMPRESSED_PREFIX)
+        ? decompress(value.slice(COMPRESSED_PREFIX.length))
+        : Promise.resolve(value),
+  })
+}
+
+/**
+ * Wraps a storage to encrypt values with AES-GCM before storing them, using the Web Crypto API
+ * (`globalThis.crypto`, which is `node:crypto`'s `webcrypto` in Node.js).
+ *
+ * Each value gets a random IV and is bound to its storage key, so values can't be moved between keys.
+ * Values that are not encrypted or fail to decrypt (wrong key, tampered data) make `getItem` reject,
+ * and the history is not loaded. Entries appended to an `IncrementalStoragePersistor` are encrypted too.
+ *
+ * To both compress and encrypt, compress first: `withCompression(withEncryption(storage, key))`.
+ * Encrypted data doesn't compress.
+ *
+ * @param storage - The storage to wrap.
+ * @param key - An AES-GCM `CryptoKey`, or the raw bytes of a 128, 192 or 256-bit key.
+ * @returns A storage encrypting values.
+ *
+ * @example
+ * const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+ * persistence: {
+ *   storage: withEncryption(myPersistor, key),
+ * }
+ */
+export function withEncryption(
+  storage: StoragePersistor,
+  key: CryptoKey | Uint8Array,
+): StoragePersistor {
+  const cryptoKey =
+    key instanceof Uint8Array
+      ? crypto.subtle.importKey('raw', key, 'AES-GCM', false, [
+          'encrypt',
+          'decrypt',
+        ])
+      : Promise.resolve(key)
+  // an invalid key is reported by encode and decode, instead of as an unhandled rejection
+  cryptoKey.catch(() => undefined)
+
+  return transformStorage(storage, {
+    async encode(storageKey, value) {
+      const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+      const encrypted = await crypto.subtle.encrypt(
+        {
+          name: 'AES-GCM',
+          iv,
+          additionalData: new TextEncoder().encode(storageKey),
+        },
+        await cryptoKey,
+        new TextEncoder().encode(value),
+      )
+
+      const bytes = new Uint8Array(IV_LENGTH + encrypted.byteLength)
+      bytes.set(iv)
+      bytes.set(new Uint8Array(encrypted), IV_LENGTH)
+      return ENCRYPTED_PREFIX + toBase64(bytes)
+    },
+    async decode(storageKey, value) {
+      if (!value.startsWith(ENCRYPTED_PREFIX)) {
+        throw new Error('stored value is not encrypted')
+      }
+
+      const bytes = fromBase64(value.slice(ENCRYPTED_PREFIX.length))
+      const decrypted = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: bytes.subarray(0, IV_LENGTH),
+          additionalData: new TextEncoder().encode(storageKey),
+        },
+        await cryptoKey,
+        bytes.subarray(IV_LENGTH),
+      )
+
+      return new TextDecoder().decode(decrypted)
+    },
+  })
+}
+
+/**
+ * Wraps a storage to encode values before storing them and decode them when reading.
+ * Incremental storages stay incremental, with their entries encoded the same way.
+ */
+function transformStorage(
+  storage: StoragePersistor,
+  {
+    encode,
+    decode,
+  }: {
+    encode: (key: string, value: string) => Promise<string>
+    decode: (key: string, value: string) => Promise<string>
+  },
+): StoragePersistor {
+  const transformed: StoragePersistor = {
+    async getItem(key) {
+      const value = await storage.getItem(key)
+      return value === null ? null : decode(key, value)
+    },
+    async setItem(key, value) {
+      await storage.setItem(key, await encode(key, value))
+    },
+    removeItem: (key) => storage.removeItem(key),
+  }
+
+  if (!isIncrementalStorage(storage)) {
+    return transformed
+  }
+
+  const incremental: IncrementalStoragePersistor = {
+    ...transformed,
+    async append(key, entries) {
+      await storage.append(
+        key,
+        await Promise.all(entries.map((entry) => encode(key, entry))),
+      )
+    },
+    truncate: (key, length) => storage.truncate(key, length),
+    async getEntries(key) {
+      const entries = await storage.getEntries(key)
+      return Promise.all(entries.map((entry) => decode(key, entry)))
+    },
+  }
+
+  return incremental
+}
+
+async function compress(value: string): Promise<string> {
+  const stream = new Blob([value])
+    .stream()
+    .pipeThrough(new CompressionStream('gzip'))
+
+  return toBase64(new Uint8Array(await new Response(stream).arrayBuffer()))
+}
+
+async function decompress(value: string): Promise<string> {
+  const stream = new Blob([fromBase64(value)])
+    .stream()
+    .pipeThrough(new DecompressionStream('gzip'))
+
+  return new Response(stream).text()
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  // chunked, as spreading large arrays into arguments overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+
+  return btoa(binary)
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0))
+}
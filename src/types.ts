@@ -1,4 +1,5 @@
 import type { UnknownAction } from 'redux'
+import type { StorageQuotaError } from './storage'
 import { HISTORY_KEY } from './actions'
 
 /**
@@ -14,6 +15,16 @@ export interface HistoryAction<Action extends UnknownAction> {
    * Indicates whether this action was undone during history tracking.
    */
   undone: boolean
+  /**
+   * Id of the group this action belongs to, if it was dispatched between `beginGroup` and `endGroup`.
+   * Actions sharing a group are undone and redone together.
+   */
+  group?: number
+  /**
+   * When the action was tracked, as returned by `getTimestamp`.
+   * Only recorded when `groupBy` is configured.
+   */
+  timestamp?: number
 }
 
 /**
@@ -34,6 +45,86 @@ export interface History<State, Action extends UnknownAction> {
    * The initial state snapshot from when tracking started.
    */
   snapshot: State
+  /**
+   * Intermediate state snapshots used to speed up replays.
+   * Only populated when `checkpointInterval` is set.
+   */
+  checkpoints: Checkpoint<State>[]
+  /**
+   * Named positions in the history, see {@link Bookmark}.
+   */
+  bookmarks: Bookmark[]
+  /**
+   * The other branches of the history, only present when `historyMode` is `'tree'`.
+   * The current branch is kept in `actions`.
+   */
+  branches?: HistoryBranch<Action>[]
+  /**
+   * Id of the current branch, only present when `historyMode` is `'tree'`.
+   */
+  branch?: number
+  /**
+   * The group currently open, if any.
+   * New tracked actions are assigned to it until it is ended.
+   */
+  group?: {
+    /**
+     * Id assigned to the actions of this group.
+     */
+    id: number
+    /**
+     * Number of `beginGroup` actions not yet matched by an `endGroup`.
+     */
+    depth: number
+  }
+}
+
+/**
+ * A named position in the history, restorable with `restoreBookmark`.
+ */
+export interface Bookmark {
+  /**
+   * Unique name of the bookmark.
+   */
+  name: string
+  /**
+   * Index of the last applied action when the bookmark was created, or `-1` for the snapshot.
+   */
+  index: number
+  /**
+   * Id of the branch the bookmark belongs to, only present when `historyMode` is `'tree'`.
+   */
+  branch?: number
+}
+
+/**
+ * An alternative branch of the history.
+ * @template Action - The Redux action.
+ */
+export interface HistoryBranch<Action extends UnknownAction> {
+  /**
+   * Unique id of the branch, used to switch to it.
+   */
+  id: number
+  /**
+   * All actions of the branch since the snapshot, including its undone actions.
+   */
+  actions: HistoryAction<Action>[]
+}
+
+/**
+ * Intermediate state snapshot stored in the history.
+ * @template State - The shape of the provided reducer.
+ */
+export interface Checkpoint<State> {
+  /**
+   * Number of entries of `actions` that were applied to reach this state.
+   */
+  index: number
+  /**
+   * The state after applying the first `index` actions on top of the snapshot.
+   */
+  state: State
 }
 
 /**
@@ -58,6 +149,17 @@ export interface HistoryState<State, Action extends UnknownAction> {
    * This is automatically updated by the library based on the history stack.
    */
   canRedo: boolean
+  /**
+   * Named positions in the history, in creation order.
+   * They are created with `bookmark` and restored with `restoreBookmark`.
+   */
+  bookmarks: Bookmark[]
+  /**
+   * Progress of loading the stored history, when using persistence.
+   * It is `'loaded'` once the stored history, if any, was hydrated, and `'failed'` when it couldn't be read.
+   * Without persistence, it stays `'idle'`.
+   */
+  loadStatus: LoadStatus
   /**
    * Internal history tracking data.
    * This should not be modified directly, otherwise it can lead to inconsistent states.
@@ -66,17 +168,68 @@ export interface HistoryState<State, Action extends UnknownAction> {
   [HISTORY_KEY]: History<State, Action>
 }
 
+/**
+ * Progress of loading the stored history, exposed as `loadStatus` on the wrapped state.
+ */
+export type LoadStatus = 'idle' | 'loading' | 'loaded' | 'failed'
+
 /**
  * Exported history data for serialization or inspection.
  * @template State - The shape of the provided reducer.
  * @template Action - The Redux action.
  * @property actions - List of actions in the history stack.
  * @property tracking - Whether history tracking is enabled.
+ * @property snapshot - Optional state the actions are replayed on, present when the history was compacted.
+ * @property branches - Optional other branches, present when `historyMode` is `'tree'`.
+ * @property branch - Optional id of the current branch, present when `historyMode` is `'tree'`.
+ * @property bookmarks - Optional named positions in the history.
  */
 export type ExportedHistory<State, Action extends UnknownAction> = Pick<
   History<State, Action>,
   'actions' | 'tracking'
->
+> &
+  Partial<
+    Pick<
+      History<State, Action>,
+      'snapshot' | 'branches' | 'branch' | 'bookmarks'
+    >
+  >
+
+/**
+ * Optional payload of the undo and redo actions to apply several steps at once.
+ * - `count`: number of steps to apply.
+ * - `predicate`: keeps applying steps while it returns true for the next action to undo or redo.
+ *
+ * A step is a single action, or a whole group of actions.
+ * All steps are applied with a single replay.
+ */
+export type UndoRedoPayload =
+  | { count: number }
+  | { predicate: (historyAction: HistoryAction<UnknownAction>) => boolean }
+
+/**
+ * Decides whether `action` is merged into the undo step of `previousAction`.
+ *
+ * @param action - The tracked action being added to history.
+ * @param previousAction - The most recent action in history.
+ * @param meta - Extra information about the tracked action.
+ * @returns True to merge both actions into a single undo step.
+ */
+export type GroupBy = (
+  action: UnknownAction,
+  previousAction: HistoryAction<UnknownAction>,
+  meta: GroupByMeta,
+) => boolean
+
+/**
+ * Extra information passed to {@link GroupBy}.
+ */
+export interface GroupByMeta {
+  /**
+   * Timestamp of the tracked action, as returned by `getTimestamp`.
+   */
+  timestamp: number
+}
 
 /**
  * Persistence configuration for storing history state.
@@ -113,30 +266,263 @@ export interface Persistence {
    */
   storage: StoragePersistor
   /**
-   * Optional Redux action type to dispatch after the stored history finishes loading.
-   * This can be used to trigger state changes (e.g. `loadingStatus = 'done'` or other side effects once the history
-   * is ready.
+   * Optional action to dispatch once loading the stored history is over, whether a history was found or not.
+   * It's dispatched right after `loadStatus` is updated, so the loaded history, if any, is already in the state.
+   *
+   * Accepts an action type, a full action, or an action creator called without arguments.
    * If not provided, no action will be dispatched after loading.
    *
-   * To prevent UI issues, it's dispatched after `100ms` to ensure the state is fully loaded.
+   * @example
+   * dispatchAfterMaybeLoading: 'editor/ready'
+   * dispatchAfterMaybeLoading: { type: 'editor/ready', payload: 'history' }
+   * dispatchAfterMaybeLoading: editorReady // e.g. a Redux Toolkit action creator
+   */
+  dispatchAfterMaybeLoading?:
+    | UnknownAction['type']
+    | UnknownAction
+    | (() => UnknownAction)
+  /**
+   * Schema version saved along with the history. Defaults to `0`.
+   *
+   * Increase it whenever a change to your actions (e.g. a renamed type or a new payload shape) would make
+   * previously saved histories replay incorrectly, and add a migration for the new version.
+   */
+  version?: number
+  /**
+   * Migrations applied to a stored history before it is hydrated, keyed by the version they migrate to.
+   *
+   * A history saved with version `1` goes through migrations `2`, `3`, ... up to `version`, in order.
+   * Histories saved without a version are considered version `0`.
+   * Histories saved with a version greater than `version` are unknown: they are ignored, as if nothing was stored,
+   * and overwritten by the next save.
+   *
+   * @example
+   * migrations: {
+   *   // 'counter/add' was renamed to 'counter/increment'
+   *   1: (history) => ({
+   *     ...history,
+   *     actions: history.actions.map((historyAction) =>
+   *       historyAction.action.type === 'counter/add'
+   *         ? { ...historyAction, action: { ...historyAction.action, type: 'counter/increment' } }
+   *         : historyAction,
+   *     ),
+   *   }),
+   * }
+   */
+  migrations?: Record<number, HistoryMigration>
+  /**
+   * Converts the history to and from the string kept in storage. Defaults to `jsonSerializer`.
+   *
+   * Use `taggedJsonSerializer` when actions or the state hold `Date`, `Map`, `Set`, `BigInt` or typed arrays,
+   * which plain JSON silently corrupts.
+   */
+  serializer?: Serializer
+  /**
+   * Optional callback for when the history can't be saved because the storage is full,
+   * e.g. to warn the user or to clear older histories.
+   * Without it, quota errors are only logged with `console.warn`, like other storage errors.
+   *
+   * @param error - A `StorageQuotaError`, with the storage error as `cause`.
+   * @param storageKey - The key the history was being saved to.
+   */
+  onQuotaExceeded?: (error: StorageQuotaError, storageKey: string) => void
+  /**
+   * Optional callback for when the stored history starts loading, after `trackAfterAction` is dispatched.
+   *
+   * @param storageKey - The key the history is loaded from.
+   */
+  onLoadStart?: (storageKey: string) => void
+  /**
+   * Optional callback for when the stored history finished loading, before it is hydrated.
+   * Not called when loading fails, `onError` is called instead.
+   *
+   * @param history - The loaded history, or `undefined` when nothing was stored.
+   * @param storageKey - The key the history was loaded from.
+   */
+  onLoaded?: (
+    history: ExportedHistory<unknown, UnknownAction> | undefined,
+    storageKey: string,
+  ) => void
+  /**
+   * Optional callback for when the history was written to storage, in full or as a delta.
+   *
+   * @param storageKey - The key the history was saved to.
+   */
+  onSaved?: (storageKey: string) => void
+  /**
+   * Optional callback for when loading, saving, removing or syncing the history fails.
+   * Quota errors go to `onQuotaExceeded` instead, when it is provided.
+   * Without it, errors are logged with `console.warn`.
+   *
+   * @param kind - The failed operation.
+   * @param error - The error thrown by the storage, the serializer or the sync transport.
+   * Quota errors are `StorageQuotaError`s, refused changes from other tabs are `SyncConflictError`s.
+   * @param storageKey - The key of the history.
+   */
+  onError?: (
+    kind: PersistenceErrorKind,
+    error: unknown,
+    storageKey: string,
+  ) => void
+  /**
+   * Optional action types dispatched by the middleware as the history is loaded and saved, so a loading or saving
+   * indicator can live in the Redux state. Each action has a `{ storageKey }` payload; the `error` one also holds
+   * the failed operation `kind` and the error `message`.
+   *
+   * Handle these actions outside of the undoable reducer: they are not meant to be undone.
+   *
+   * @example
+   * statusActions: {
+   *   saving: 'history/saving',
+   *   saved: 'history/saved',
+   *   error: 'history/error',
+   * }
+   */
+  statusActions?: Partial<Record<PersistenceStatus, UnknownAction['type']>>
+  /**
+   * Number of deltas appended to an `IncrementalStoragePersistor` before the whole history is rewritten,
+   * which shortens the log to read when loading. Defaults to `50`.
+   */
+  compactionInterval?: number
+  /**
+   * Optional delay in milliseconds to wait for changes to stop before saving, so a burst of actions is saved once.
+   * When `saveThrottleMs` is set too, bursts are still saved at least that often.
    */
-  dispatchAfterMaybeLoading?: UnknownAction['type']
+  saveDebounceMs?: number
+  /**
+   * Optional minimum time in milliseconds between two saves of the same history.
+   * Changes made in between are saved together at the end of the interval.
+   */
+  saveThrottleMs?: number
+  /**
+   * Whether to write pending saves when the page is hidden or unloaded (`pagehide` and `beforeunload` events).
+   * Only synchronous storages, like Web Storage, are guaranteed to finish writing. Defaults to `false`.
+   * The listeners are added when the middleware is applied to a store, and removed by `dispose`.
+   */
+  flushOnUnload?: boolean
+  /**
+   * Optional synchronization of the history between tabs showing the same storage key.
+   * Without it, tabs overwrite each other's saved history.
+   */
+  sync?: HistorySync
+}
+
+/**
+ * Cross-tab synchronization of the history, set with the `sync` persistence option.
+ *
+ * Each tracked action, undo, redo or reset is broadcast with the resulting history. Other tabs showing the same
+ * storage key hydrate it without saving it again, as the tab making the change saves it.
+ *
+ * @example
+ * sync: {
+ *   transport: createBroadcastChannelTransport('my-app-history'),
+ *   conflictStrategy: 'merge',
+ * }
+ */
+export interface HistorySync {
+  /**
+   * Carries the changes between tabs, e.g. `createBroadcastChannelTransport` or `createStorageEventTransport`.
+   */
+  transport: SyncTransport
+  /**
+   * What to do when two tabs changed the history at the same time. Defaults to `'last-writer-wins'`.
+   * - `'last-writer-wins'`: every tab keeps the history of the latest change.
+   * - `'reject'`: the change from the other tab is refused and reported to `onError` as a `SyncConflictError`.
+   *   Tabs keep their own history until one of them loads it again.
+   * - `'merge'`: both tabs keep the actions they share, followed by the new actions of the earliest change, then
+   *   the ones of the latest. Falls back to `'last-writer-wins'` when more than the actions differ, e.g. with
+   *   branches or a different snapshot.
+   */
+  conflictStrategy?: SyncConflictStrategy
+}
+
+/**
+ * How concurrent changes from different tabs are resolved, see {@link HistorySync.conflictStrategy}.
+ */
+export type SyncConflictStrategy = 'last-writer-wins' | 'reject' | 'merge'
+
+/**
+ * Sends messages to the other tabs and receives theirs. Messages are strings, so any channel can carry them.
+ * A message must not be delivered back to the tab that posted it.
+ *
+ * @example
+ * // a transport relaying messages through a WebSocket
+ * const transport: SyncTransport = {
+ *   post: (message) => socket.send(message),
+ *   subscribe(listener) {
+ *     const onMessage = (event: MessageEvent<string>) => listener(event.data)
+ *     socket.addEventListener('message', onMessage)
+ *     return () => socket.removeEventListener('message', onMessage)
+ *   },
+ * }
+ */
+export interface SyncTransport {
+  /**
+   * Sends a message to the other tabs.
+   */
+  post(message: string): void
+  /**
+   * Listens to the messages of the other tabs.
+   * @returns A function to stop listening.
+   */
+  subscribe(listener: (message: string) => void): () => void
 }
 
+/**
+ * Storage operation reported to the `onError` persistence option.
+ */
+export type PersistenceErrorKind = 'load' | 'save' | 'remove' | 'sync'
+
+/**
+ * Persistence lifecycle step that can dispatch an action, through the `statusActions` persistence option.
+ */
+export type PersistenceStatus =
+  | 'loading'
+  | 'loaded'
+  | 'saving'
+  | 'saved'
+  | 'error'
+
+/**
+ * Change appended to the log of an `IncrementalStoragePersistor`: actions from index `from` onwards are replaced
+ * with `actions`. This covers new actions, undone flags flipped by undo and redo, and discarded redo stacks.
+ */
+export interface HistoryDelta<Action extends UnknownAction = UnknownAction> {
+  from: number
+  actions: HistoryAction<Action>[]
+}
+
+/**
+ * Converts values to and from strings for storage.
+ * Both methods may throw, in which case the history is not saved or loaded.
+ */
+export interface Serializer {
+  serialize(value: unknown): string
+  deserialize(raw: string): unknown
+}
+
+/**
+ * Transforms a stored history into the shape expected by the next schema version.
+ * If it throws, the stored history is not loaded.
+ */
+export type HistoryMigration = (
+  history: ExportedHistory<unknown, UnknownAction>,
+) => ExportedHistory<unknown, UnknownAction>
+
 /**
  * Interface for custom storage implementations used for persisting history state.
  * Implement this to provide async storage (e.g., localStorage, AsyncStorage, IndexedDB, custom backend).
  *
  * All methods must be Promise-based and handle string values.
- * It is highly recommended to compress/decompress the data before storing it, especially for larger states.
- * This can be done using libraries like `lz-string` and the methods compressToUTF16/decompressFromUTF16.
+ * It is highly recommended to compress the data before storing it, especially for larger states.
+ * Wrap the storage with `withCompression` for that, and with `withEncryption` to encrypt it.
  *
  * @example
- * const myPersistor: StoragePersistor = {
- *   async getItem(key) { return decompressFromUTF16(localStorage.getItem(key)) },
- *   async setItem(key, value) { localStorage.setItem(key, compressToUTF16(value)) },
+ * const myPersistor: StoragePersistor = withCompression({
+ *   async getItem(key) { return localStorage.getItem(key) },
+ *   async setItem(key, value) { localStorage.setItem(key, value) },
  *   async removeItem(key) { localStorage.removeItem(key) }
- * }
+ * })
  */
 export interface StoragePersistor {
   /**
@@ -154,8 +540,84 @@ export interface StoragePersistor {
   removeItem(key: string): Promise<void>
 }
 
+/**
+ * Storage that can append to a log of entries kept next to each value, so only the changes to the history are
+ * written after each action instead of the whole history.
+ *
+ * The history saved with `setItem` is followed by the entries appended to its key, which are loaded with it.
+ * Every `compactionInterval` entries, and whenever more than the actions changed, the log is cleared and the whole
+ * history is written again.
+ * `removeItem` must remove the log as well.
+ *
+ * @example
+ * const values = new Map<string, string>()
+ * const logs = new Map<string, string[]>()
+ * const myPersistor: IncrementalStoragePersistor = {
+ *   async getItem(key) { return values.get(key) ?? null },
+ *   async setItem(key, value) { values.set(key, value) },
+ *   async removeItem(key) { values.delete(key); logs.delete(key) },
+ *   async append(key, entries) { logs.set(key, [...(logs.get(key) ?? []), ...entries]) },
+ *   async truncate(key, length) { logs.set(key, (logs.get(key) ?? []).slice(0, length)) },
+ *   async getEntries(key) { return logs.get(key) ?? [] },
+ * }
+ */
+export interface IncrementalStoragePersistor extends StoragePersistor {
+  /**
+   * Appends entries, in order, to the log of the given key.
+   */
+  append(key: string, entries: string[]): Promise<void>
+  /**
+   * Keeps only the first `length` entries of the log of the given key.
+   */
+  truncate(key: string, length: number): Promise<void>
+  /**
+   * Retrieves the entries of the log of the given key, in order.
+   * Returns an empty array if there are none.
+   */
+  getEntries(key: string): Promise<string[]>
+}
+
+/**
+ * Matches actions by:
+ * - type: the exact action type, looked up in a `Set`.
+ * - `RegExp`: tested against the action type.
+ * - predicate: called with the action.
+ * - matcher: anything with a `match` method, like Redux Toolkit action creators or `isAnyOf(...)`.
+ */
+export type ActionMatcher<
+  Type extends UnknownAction['type'] = UnknownAction['type'],
+> =
+  | Type
+  | RegExp
+  | ((action: UnknownAction) => boolean)
+  | { match: (action: UnknownAction) => boolean }
+
+/**
+ * Actions matching any of the matchers, or actions matching `include` but none of `exclude`.
+ * An empty list, or a missing or empty `include`, matches every action.
+ *
+ * @example [/^canvas\//, isAnyOf(select, deselect)]
+ * @example { include: [/^canvas\//], exclude: ['canvas/hover'] }
+ */
+export type ActionFilter<
+  Type extends UnknownAction['type'] = UnknownAction['type'],
+> =
+  | ActionMatcher<Type>[]
+  | { include?: ActionMatcher<Type>[]; exclude?: ActionMatcher<Type>[] }
+
+/**
+ * The action types of `Action`, or any action type when they are not known, e.g. for `UnknownAction`.
+ * Constrains the action types accepted by the configuration, so typos don't compile.
+ *
+ * @example ActionType<{ type: 'counter/increment' } | { type: 'counter/decrement' }>
+ * // 'counter/increment' | 'counter/decrement'
+ */
+export type ActionType<Action extends UnknownAction> =
+  string extends Action['type'] ? UnknownAction['type'] : Action['type']
+
 /**
  * Configuration for customizing which actions are tracked and undoable.
+ * @template Type - The action types accepted by `trackedActions`, `undoableActions` and `trackAfterAction`.
  *
  * @example
  * const config: UndoableActionsConfig = {
@@ -170,24 +632,29 @@ export interface StoragePersistor {
  *   }
  * }
  */
-export interface UndoableActionsConfig {
+export interface UndoableActionsConfig<
+  Type extends UnknownAction['type'] = UnknownAction['type'],
+> {
   /**
-   * Specifies which Redux action types should be tracked in the history.
+   * Specifies which Redux actions should be tracked in the history, see {@link ActionFilter}.
    * If omitted, all actions will be tracked, which may include actions from other reducers.
    * For best results, provide only the relevant action types.
    *
    * @example ['canvas/draw', 'canvas/zoomIn', 'canvas/zoomOut']
+   * @example { include: [/^canvas\//], exclude: ['canvas/hover'] }
    * @default []
    */
-  trackedActions: UnknownAction['type'][]
+  trackedActions: ActionFilter<Type>
   /**
    * Defines which tracked actions can be undone or redone.
    * If omitted, all tracked actions are considered undoable.
    *
+   * Accepts the same matchers as `trackedActions`, see {@link ActionFilter}.
+   *
    * @example ['canvas/draw']
    * @default []
    */
-  undoableActions: UnknownAction['type'][]
+  undoableActions: ActionFilter<Type>
   /**
    * Action type that triggers the start of history tracking.
    * Useful if your actual initial state loads asynchronously.
@@ -196,7 +663,54 @@ export interface UndoableActionsConfig {
    * @example 'canvas/start'
    * @default undefined
    */
-  trackAfterAction?: UnknownAction['type']
+  trackAfterAction?: Type
+  /**
+   * Number of tracked actions between intermediate state checkpoints.
+   * Undo and redo replay only from the nearest checkpoint instead of the initial snapshot,
+   * trading memory for speed on long histories.
+   * Use `0` to disable checkpoints.
+   *
+   * @example 50
+   * @default 0
+   */
+  checkpointInterval: number
+  /**
+   * Maximum number of actions kept in the history.
+   * Once exceeded, the oldest actions are folded into the snapshot and can no longer be undone.
+   * Undone actions are never folded, so the history may temporarily grow beyond this limit.
+   * Groups are folded whole, so they may keep the history beyond this limit as well.
+   * When persisting, the snapshot is saved along with the actions.
+   * Use `0` for an unlimited history.
+   *
+   * @example 100
+   * @default 0
+   */
+  maxHistory: number
+  /**
+   * Decides whether a tracked action is merged into the undo step of the previous one.
+   * Useful to coalesce bursts of actions, such as typing, into a single undo step.
+   * See {@link coalesceWithin} for a time-based implementation.
+   *
+   * @example coalesceWithin(500, ['editor/setText'])
+   * @default undefined
+   */
+  groupBy?: GroupBy
+  /**
+   * Returns the timestamp recorded for a tracked action and passed to `groupBy`.
+   * Override it to keep the reducer pure, e.g. by reading a timestamp set on the action by its creator.
+   *
+   * @example (action) => (action.meta as { timestamp: number }).timestamp
+   * @default Date.now
+   */
+  getTimestamp: (action: UnknownAction) => number
+  /**
+   * How the redo stack is handled when a new undoable action is tracked.
+   * - `'linear'`: undone actions are discarded.
+   * - `'tree'`: undone actions are kept as a branch that can be switched back to with `switchBranch`.
+   *
+   * @default 'linear'
+   */
+  historyMode: 'linear' | 'tree'
   /**
    * Customizable internal action types for undo, redo, reset, and tracking operations.
    * Useful if you use the reducer multiple times in your store and need to differentiate actions.
@@ -206,15 +720,44 @@ export interface UndoableActionsConfig {
     /**
      * Action type for the undo operation.
      * Dispatching this action undoes the most recent undoable action, if available.
+     * Accepts an optional {@link UndoRedoPayload} to undo several steps at once.
      * @default {@link ActionTypes.Undo}
      */
     undo: UnknownAction['type']
     /**
      * Action type for the redo operation.
      * Dispatching this action redoes the most recently undone action, if available.
+     * Accepts an optional {@link UndoRedoPayload} to redo several steps at once.
      * @default {@link ActionTypes.Redo}
      */
     redo: UnknownAction['type']
+    /**
+     * Action type for the jump operation.
+     * Dispatching this action with an index as payload undoes every undoable action after that index
+     * and redoes every one up to it. Use `-1` to undo everything.
+     * If the index falls inside a group, the whole group is kept applied.
+     * @default {@link ActionTypes.JumpTo}
+     */
+    jumpTo: UnknownAction['type']
+    /**
+     * Action type for switching branches when `historyMode` is `'tree'`.
+     * Dispatching this action with a branch id as payload makes that branch the current one.
+     * @default {@link ActionTypes.SwitchBranch}
+     */
+    switchBranch: UnknownAction['type']
+    /**
+     * Action type for bookmarking the current position in history.
+     * Dispatching this action with a name as payload records the current position under that name,
+     * replacing any bookmark with the same name.
+     * @default {@link ActionTypes.Bookmark}
+     */
+    bookmark: UnknownAction['type']
+    /**
+     * Action type for restoring a bookmark.
+     * Dispatching this action with a bookmark name as payload jumps back to its position.
+     * @default {@link ActionTypes.RestoreBookmark}
+     */
+    restoreBookmark: UnknownAction['type']
     /**
      * Action type for the reset operation.
      * Dispatching this action resets the history to its initial state,
@@ -230,12 +773,30 @@ export interface UndoableActionsConfig {
      * @default {@link ActionTypes.Hydrate}
      */
     hydrate: UnknownAction['type']
+    /**
+     * Action type for updating `loadStatus`, dispatched by the persistence middleware while loading.
+     * Dispatching this action with a `LoadStatus` as payload sets it.
+     * @default {@link ActionTypes.LoadStatus}
+     */
+    loadStatus: UnknownAction['type']
     /**
      * Action type for the tracking operation.
      * Dispatching this action toggles the tracking state.
      * @default {@link ActionTypes.Tracking}
      */
     tracking: UnknownAction['type']
+    /**
+     * Action type for starting a group.
+     * Tracked actions dispatched until the matching `endGroup` are undone and redone as a single step.
+     * Nested groups are merged into the outermost one.
+     * @default {@link ActionTypes.BeginGroup}
+     */
+    beginGroup: UnknownAction['type']
+    /**
+     * Action type for ending the current group.
+     * @default {@link ActionTypes.EndGroup}
+     */
+    endGroup: UnknownAction['type']
   }
 }
 
@@ -250,11 +811,14 @@ export type PersistedUndoableActionsConfig = UndoableActionsConfig & {
 /**
  * Partial configuration for undoable actions.
  * The provided properties will override the defaults.
+ * @template Type - The action types accepted by `trackedActions`, `undoableActions` and `trackAfterAction`.
  */
-export type PartialUndoableActionsConfig = DeepPartial<UndoableActionsConfig>
+export type PartialUndoableActionsConfig<
+  Type extends UnknownAction['type'] = UnknownAction['type'],
+> = DeepPartial<UndoableActionsConfig<Type>>
 
 type DeepPartial<T> = T extends object
-  ? T extends unknown[]
+  ? T extends unknown[] | ((...args: never[]) => unknown)
     ? T
     : { [K in keyof T]?: DeepPartial<T[K]> }
   : T
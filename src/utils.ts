@@ -1,21 +1,19 @@
 import type { UnknownAction } from 'redux'
-import type { History, HistoryAction, UndoableActionsConfig } from './types'
+import type {
+  ActionFilter,
+  ActionMatcher,
+  History,
+  HistoryAction,
+  UndoableActionsConfig,
+} from './types'
 
 export function canUndo<State, Action extends UnknownAction>(
   config: Pick<UndoableActionsConfig, 'undoableActions'>,
   actions: History<State, Action>['actions'],
 ): boolean {
-  actions = actions.filter((a: HistoryAction<Action>) => !a.undone)
-
-  if (actions.length === 0) {
-    return false
-  }
-
-  return (
-    config.undoableActions.length === 0 ||
-    actions.some((a: HistoryAction<Action>) =>
-      config.undoableActions.includes(a.action.type),
-    )
+  return actions.some(
+    (a: HistoryAction<Action>) =>
+      !a.undone && isActionUndoable(config, a.action),
   )
 }
 
@@ -30,20 +28,70 @@ export function isActionUndoable(
   config: Pick<UndoableActionsConfig, 'undoableActions'>,
   action: UnknownAction,
 ): boolean {
-  return (
-    config.undoableActions.length === 0 ||
-    config.undoableActions.includes(action.type)
-  )
+  return matchesFilter(config.undoableActions, action)
 }
 
 export function isActionTracked(
   config: Pick<UndoableActionsConfig, 'trackedActions'>,
   action: UnknownAction,
 ): boolean {
-  return (
-    config.trackedActions.length === 0 ||
-    config.trackedActions.includes(action.type)
-  )
+  return matchesFilter(config.trackedActions, action)
+}
+
+// filters are compiled once, as they are checked for every dispatched action
+const compiledFilters = new WeakMap<
+  ActionFilter,
+  (action: UnknownAction) => boolean
+>()
+
+function matchesFilter(filter: ActionFilter, action: UnknownAction): boolean {
+  let matches = compiledFilters.get(filter)
+  if (matches === undefined) {
+    matches = compileFilter(filter)
+    compiledFilters.set(filter, matches)
+  }
+
+  return matches(action)
+}
+
+function compileFilter(
+  filter: ActionFilter,
+): (action: UnknownAction) => boolean {
+  const { include = [], exclude = [] } = Array.isArray(filter)
+    ? { include: filter }
+    : filter
+  const included = compileMatchers(include)
+  const excluded = compileMatchers(exclude)
+
+  return (action) =>
+    (include.length === 0 || included(action)) &&
+    (exclude.length === 0 || !excluded(action))
+}
+
+function compileMatchers(
+  matchers: ActionMatcher[],
+): (action: UnknownAction) => boolean {
+  const types = new Set<UnknownAction['type']>()
+  const others: ((action: UnknownAction) => boolean)[] = []
+
+  for (const matcher of matchers) {
+    if (typeof matcher === 'string') {
+      types.add(matcher)
+    } else if (matcher instanceof RegExp) {
+      others.push((action) => {
+        // global and sticky RegExps keep their position between calls
+        matcher.lastIndex = 0
+        return matcher.test(action.type)
+      })
+    } else if ('match' in matcher) {
+      others.push((action) => matcher.match(action))
+    } else {
+      others.push(matcher)
+    }
+  }
+
+  return (action) =>
+    types.has(action.type) || others.some((matches) => matches(action))
 }
 
 export function deepEqual<T>(a: T, b: T): boolean
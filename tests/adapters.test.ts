@@ -0,0 +1,338 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createIndexedDBStorage,
+  createMemoryStorage,
+  createWebStorage,
+  type IndexedDBFactory,
+  type WebStorage,
+} from '../src'
+
+describe.concurrent('createWebStorage', () => {
+  it.concurrent('reads, writes and removes values', async () => {
+    const webStorage = new FakeWebStorage()
+    const storage = createWebStorage(webStorage)
+
+    expect(await storage.getItem('key')).toBeNull()
+    await storage.setItem('key', 'value')
+    expect(webStorage.items.get('key')).toBe('value')
+    expect(await storage.getItem('key')).toBe('value')
+    await storage.removeItem('key')
+    expect(webStorage.items.has('key')).toBe(false)
+  })
+
+  it.concurrent('rejects when the quota is exceeded', async () => {
+    const storage = createWebStorage(new FakeWebStorage(5))
+
+    await expect(storage.setItem('key', 'too long')).rejects.toMatchObject({
+      name: 'QuotaExceededError',
+    })
+  })
+})
+
+describe.concurrent('createMemoryStorage', () => {
+  it.concurrent('reads, writes and removes values', async () => {
+    const storage = createMemoryStorage({ initial: 'value' })
+
+    expect(await storage.getItem('initial')).toBe('value')
+    expect(await storage.getItem('key')).toBeNull()
+    await storage.setItem('key', 'other')
+    expect(await storage.getItem('key')).toBe('other')
+    await storage.removeItem('key')
+    expect(await storage.getItem('key')).toBeNull()
+  })
+
+  it.concurrent('appends, truncates and removes log entries', async () => {
+    const storage = createMemoryStorage()
+
+    expect(await storage.getEntries('key')).toEqual([])
+    await storage.append('key', ['a', 'b'])
+    await storage.append('key', ['c'])
+    expect(await storage.getEntries('key')).toEqual(['a', 'b', 'c'])
+    await storage.truncate('key', 1)
+    expect(await storage.getEntries('key')).toEqual(['a'])
+    await storage.removeItem('key')
+    expect(await storage.getEntries('key')).toEqual([])
+  })
+
+  it.concurrent('keeps values per storage', async () => {
+    const storage = createMemoryStorage()
+    await storage.setItem('key', 'value')
+
+    expect(await createMemoryStorage().getItem('key')).toBeNull()
+  })
+})
+
+describe.concurrent('createIndexedDBStorage', () => {
+  it.concurrent('reads, writes and removes values', async () => {
+    const indexedDB = createFakeIndexedDB()
+    const storage = createIndexedDBStorage({
+      dbName: 'app',
+      storeName: 'history',
+      indexedDB,
+    })
+
+    expect(await storage.getItem('key')).toBeNull()
+    await storage.setItem('key', 'value')
+    expect(await storage.getItem('key')).toBe('value')
+    await storage.removeItem('key')
+    expect(await storage.getItem('key')).toBeNull()
+    expect(indexedDB.openCount).toBe(1)
+  })
+
+  it.concurrent('adds missing stores to existing databases', async () => {
+    const indexedDB = createFakeIndexedDB()
+    const storage = createIndexedDBStorage({
+      dbName: 'app',
+      storeName: 'history',
+      indexedDB,
+    })
+    await storage.setItem('key', 'value')
+
+    const otherStorage = createIndexedDBStorage({
+      dbName: 'app',
+      storeName: 'other',
+      indexedDB,
+    })
+    await otherStorage.setItem('key', 'other')
+
+    expect(await storage.getItem('key')).toBe('value')
+    expect(await otherStorage.getItem('key')).toBe('other')
+    expect(indexedDB.version('app')).toBe(2)
+  })
+
+  it.concurrent(
+    'adds missing stores while another storage uses the database',
+    async () => {
+      const indexedDB = createFakeIndexedDB()
+      const storage = createIndexedDBStorage({
+        dbName: 'app',
+        storeName: 'history',
+        indexedDB,
+      })
+      const otherStorage = createIndexedDBStorage({
+        dbName: 'app',
+        storeName: 'other',
+        indexedDB,
+      })
+
+      await Promise.all([
+        storage.setItem('key', 'value'),
+        otherStorage.setItem('key', 'other'),
+      ])
+      await storage.setItem('key', 'new value')
+
+      expect(await storage.getItem('key')).toBe('new value')
+      expect(await otherStorage.getItem('key')).toBe('other')
+    },
+  )
+
+  it.concurrent('rejects upgrades blocked by other connections', async () => {
+    const indexedDB = createFakeIndexedDB()
+    // a connection of another page, which doesn't close when asked to
+    const request = indexedDB.open('app')
+    await new Promise<void>((resolve) => {
+      request.onsuccess = resolve
+    })
+    const storage = createIndexedDBStorage({
+      dbName: 'app',
+      storeName: 'history',
+      indexedDB,
+    })
+
+    await expect(storage.setItem('key', 'value')).rejects.toThrow(
+      'upgrading IndexedDB database app is blocked by another connection',
+    )
+    ;(request.result as { close(): void }).close()
+    await storage.setItem('key', 'value')
+    expect(await storage.getItem('key')).toBe('value')
+  })
+
+  it.concurrent('rejects failed transactions', async () => {
+    const indexedDB = createFakeIndexedDB()
+    const storage = createIndexedDBStorage({
+      dbName: 'app',
+      storeName: 'history',
+      indexedDB,
+    })
+    indexedDB.failWith = new DOMException('full', 'QuotaExceededError')
+
+    await expect(storage.setItem('key', 'value')).rejects.toThrow(
+      indexedDB.failWith,
+    )
+  })
+
+  it.concurrent('rejects when IndexedDB is not available', async () => {
+    const storage = createIndexedDBStorage({
+      dbName: 'app',
+      storeName: 'history',
+    })
+
+    await expect(storage.getItem('key')).rejects.toThrow(
+      'IndexedDB is not available',
+    )
+  })
+})
+
+class FakeWebStorage implements WebStorage {
+  items = new Map<string, string>()
+
+  constructor(private quota = Infinity) {}
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null
+  }
+
+  setItem(key: string, value: string) {
+    if (value.length > this.quota) {
+      throw new DOMException('quota exceeded', 'QuotaExceededError')
+    }
+    this.items.set(key, value)
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key)
+  }
+}
+
+interface FakeRequest {
+  result: unknown
+  error: unknown
+  onsuccess: (() => void) | null
+  onerror: (() => void) | null
+  onupgradeneeded: (() => void) | null
+  onblocked: (() => void) | null
+}
+
+interface FakeTransaction {
+  error: unknown
+  oncomplete: (() => void) | null
+  onerror: (() => void) | null
+  onabort: (() => void) | null
+  objectStore: () => object
+}
+
+interface FakeDatabaseData {
+  version: number
+  stores: Map<string, Map<string, string>>
+  connections: Set<{ onversionchange: (() => void) | null }>
+  // upgrades waiting for the open connections to close
+  blocked: (() => void)[]
+}
+
+// a minimal asynchronous IndexedDB, enough for createIndexedDBStorage
+function createFakeIndexedDB() {
+  const databases = new Map<string, FakeDatabaseData>()
+
+  const fake = {
+    openCount: 0,
+    failWith: undefined as DOMException | undefined,
+    version: (name: string) => databases.get(name)?.version,
+    open(name: string, version?: number) {
+      fake.openCount++
+      const request: FakeRequest = {
+        result: undefined,
+        error: null,
+        onsuccess: null,
+        onerror: null,
+        onupgradeneeded: null,
+        onblocked: null,
+      }
+
+      setTimeout(() => {
+        const data: FakeDatabaseData = databases.get(name) ?? {
+          version: 0,
+          stores: new Map(),
+          connections: new Set(),
+          blocked: [],
+        }
+        databases.set(name, data)
+        const newVersion = version ?? Math.max(data.version, 1)
+
+        const succeed = () => {
+          const database = createDatabase(data)
+          data.connections.add(database)
+          request.result = database
+          if (newVersion > data.version) {
+            data.version = newVersion
+            request.onupgradeneeded?.()
+          }
+          request.onsuccess?.()
+        }
+
+        if (newVersion <= data.version) {
+          succeed()
+          return
+        }
+
+        // like browsers, ask the open connections to close before upgrading
+        for (const connection of data.connections) {
+          connection.onversionchange?.()
+        }
+        if (data.connections.size === 0) {
+          succeed()
+        } else {
+          request.onblocked?.()
+          data.blocked.push(succeed)
+        }
+      })
+
+      return request
+    },
+  }
+
+  const createDatabase = (data: FakeDatabaseData) => ({
+    get version() {
+      return data.version
+    },
+    onversionchange: null as (() => void) | null,
+    objectStoreNames: { contains: (name: string) => data.stores.has(name) },
+    createObjectStore: (name: string) =>
+      data.stores.set(name, new Map<string, string>()),
+    close() {
+      data.connections.delete(this)
+      if (data.connections.size === 0) {
+        for (const succeed of data.blocked.splice(0)) {
+          succeed()
+        }
+      }
+    },
+    transaction(storeName: string) {
+      const store = data.stores.get(storeName) ?? new Map<string, string>()
+      const request = (result: unknown) => ({
+        result,
+        error: null,
+        onsuccess: null,
+        onerror: null,
+      })
+      const transaction: FakeTransaction = {
+        error: null,
+        oncomplete: null,
+        onerror: null,
+        onabort: null,
+        objectStore: () => ({
+          get: (key: string) => request(store.get(key)),
+          put: (value: string, key: string) => {
+            if (!fake.failWith) {
+              store.set(key, value)
+            }
+            return request(key)
+          },
+          delete: (key: string) => request(store.delete(key)),
+        }),
+      }
+
+      setTimeout(() => {
+        if (fake.failWith) {
+          transaction.error = fake.failWith
+          transaction.onabort?.()
+        } else {
+          transaction.oncomplete?.()
+        }
+      })
+
+      return transaction
+    },
+  })
+
+  return fake as typeof fake & IndexedDBFactory
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { coalesceWithin } from '../src'
+
+describe.concurrent('coalesceWithin', () => {
+  const previousAction = {
+    action: { type: 'editor/setText' },
+    undone: false,
+    timestamp: 1000,
+  }
+
+  it.concurrent('returns true for the same type within the window', () => {
+    const groupBy = coalesceWithin(500, ['editor/setText'])
+    expect(
+      groupBy({ type: 'editor/setText' }, previousAction, { timestamp: 1500 }),
+    ).toBe(true)
+  })
+
+  it.concurrent('returns false outside of the window', () => {
+    const groupBy = coalesceWithin(500, ['editor/setText'])
+    expect(
+      groupBy({ type: 'editor/setText' }, previousAction, { timestamp: 1501 }),
+    ).toBe(false)
+  })
+
+  it.concurrent('returns false for types that are not listed', () => {
+    const groupBy = coalesceWithin(500, ['editor/setTitle'])
+    expect(
+      groupBy({ type: 'editor/setText' }, previousAction, { timestamp: 1100 }),
+    ).toBe(false)
+  })
+
+  it.concurrent('returns false if the previous action differs', () => {
+    const groupBy = coalesceWithin(500)
+    expect(
+      groupBy({ type: 'editor/setTitle' }, previousAction, { timestamp: 1100 }),
+    ).toBe(false)
+  })
+
+  it.concurrent('returns false if the previous action has no timestamp', () => {
+    const groupBy = coalesceWithin(500)
+    expect(
+      groupBy(
+        { type: 'editor/setText' },
+        { action: { type: 'editor/setText' }, undone: false },
+        { timestamp: 1100 },
+      ),
+    ).toBe(false)
+  })
+
+  it.concurrent('coalesces all types if none are given', () => {
+    const groupBy = coalesceWithin(500)
+    expect(
+      groupBy({ type: 'editor/setText' }, previousAction, { timestamp: 1100 }),
+    ).toBe(true)
+  })
+})
@@ -5,6 +5,8 @@ import { legacy_createStore as createStore } from 'redux'
 import {
   ActionCreators,
   ActionTypes,
+  coalesceWithin,
+  getBranches,
   type HistoryAction,
   type HistoryState,
   undoableActions,
@@ -469,4 +471,955 @@ describe.concurrent('undoableActions with custom config', () => {
     expect(store.getState().canUndo).toStrictEqual(true)
     expect(store.getState().canRedo).toStrictEqual(true)
   })
+
+  it.concurrent('should track and undo actions matching patterns', () => {
+    const store = createStore(
+      undoableActions(counterReducer, {
+        trackedActions: { include: [/^counter\//], exclude: ['counter/start'] },
+        undoableActions: [
+          (action: UnknownAction) => action.type !== 'counter/changeName',
+        ],
+      }),
+    )
+
+    store.dispatch({ type: 'counter/start', payload: 0 })
+    store.dispatch({ type: 'counter/increment' })
+    store.dispatch({ type: 'counter/changeName', payload: 'The new name' })
+    expectHistoryActions(store, [
+      { action: { type: 'counter/increment' }, undone: false },
+      {
+        action: { type: 'counter/changeName', payload: 'The new name' },
+        undone: false,
+      },
+    ])
+
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 0)
+    expect(store.getState().present.name).toStrictEqual('The new name')
+    expect(store.getState().canUndo).toStrictEqual(false)
+  })
+})
+
+describe.concurrent('undoableActions with checkpoints', () => {
+  it.concurrent('should store checkpoints every checkpointInterval', () => {
+    const store = createStore(
+      undoableActions(counterReducer, { checkpointInterval: 2 }),
+    )
+    for (let i = 1; i <= 5; i++) {
+      store.dispatch({ type: 'counter/increment', payload: i })
+    }
+    expectCount(store, 15)
+
+    const { checkpoints } = store.getState()[HISTORY_KEY]
+    expect(
+      checkpoints.map(({ index, state }) => [index, state.count]),
+    ).toStrictEqual([
+      [2, 3],
+      [4, 10],
+    ])
+  })
+
+  it.concurrent('should undo the same way with and without checkpoints', () => {
+    const results = [0, 2].map((checkpointInterval) => {
+      const store = createStore(
+        undoableActions(counterReducer, {
+          trackedActions: ['counter/increment'],
+          checkpointInterval,
+        }),
+      )
+      store.dispatch({ type: 'counter/increment' })
+      store.dispatch({ type: 'counter/changeName', payload: 'Untracked' })
+      store.dispatch({ type: 'counter/increment' })
+      store.dispatch({ type: 'counter/increment' })
+      store.dispatch(ActionCreators.undo())
+      store.dispatch(ActionCreators.redo())
+      store.dispatch({ type: 'counter/increment' })
+      store.dispatch({ type: 'counter/increment' })
+      store.dispatch(ActionCreators.undo())
+
+      return store.getState().present
+    })
+
+    expect(results[0]).toStrictEqual({ name: 'Counter', count: 4 })
+    expect(results[1]).toStrictEqual(results[0])
+  })
+
+  it.concurrent('should not store checkpoints by default', () => {
+    const store = createStore(undoableActions(counterReducer))
+    for (let i = 1; i <= 5; i++) {
+      store.dispatch({ type: 'counter/increment', payload: i })
+    }
+    store.dispatch(ActionCreators.undo())
+    expect(store.getState()[HISTORY_KEY].checkpoints).toStrictEqual([])
+  })
+
+  it.concurrent('should replay from the nearest checkpoint on undo', () => {
+    let calls = 0
+    const countingReducer: typeof counterReducer = (state, action) => {
+      calls++
+      return counterReducer(state, action)
+    }
+    const store = createStore(
+      undoableActions(countingReducer, { checkpointInterval: 10 }),
+    )
+    for (let i = 0; i < 25; i++) {
+      store.dispatch({ type: 'counter/increment' })
+    }
+
+    calls = 0
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 24)
+    // replays actions 20 to 23 from the checkpoint at 20
+    expect(calls).toStrictEqual(4)
+  })
+
+  it.concurrent(
+    'should keep checkpoints consistent with undo, redo, hydrate and reset',
+    () => {
+      const withCheckpoints = createStore(
+        undoableActions(counterReducer, { checkpointInterval: 2 }),
+      )
+      const withoutCheckpoints = createStore(undoableActions(counterReducer))
+      const dispatchBoth = (action: UnknownAction) => {
+        withCheckpoints.dispatch(action)
+        withoutCheckpoints.dispatch(action)
+        expect(withCheckpoints.getState().present).toStrictEqual(
+          withoutCheckpoints.getState().present,
+        )
+      }
+
+      for (let i = 1; i <= 6; i++) {
+        dispatchBoth({ type: 'counter/increment', payload: i })
+      }
+      dispatchBoth(ActionCreators.undo())
+      dispatchBoth(ActionCreators.undo())
+      dispatchBoth(ActionCreators.undo())
+      dispatchBoth(ActionCreators.redo())
+      dispatchBoth({ type: 'counter/decrement', payload: 100 })
+      dispatchBoth({ type: 'counter/increment', payload: 7 })
+      dispatchBoth({ type: 'counter/increment', payload: 8 })
+      dispatchBoth(ActionCreators.undo())
+      dispatchBoth(ActionCreators.undo())
+      dispatchBoth(ActionCreators.undo())
+      dispatchBoth(ActionCreators.redo())
+      dispatchBoth(ActionCreators.redo())
+      expectCount(withCheckpoints, -83)
+
+      dispatchBoth(
+        ActionCreators.hydrate({
+          actions: [
+            { action: { type: 'counter/increment' }, undone: false },
+            { action: { type: 'counter/increment' }, undone: false },
+            { action: { type: 'counter/increment' }, undone: false },
+            {
+              action: { type: 'counter/increment', payload: 10 },
+              undone: true,
+            },
+          ],
+          tracking: true,
+        }),
+      )
+      expect(
+        withCheckpoints.getState()[HISTORY_KEY].checkpoints.map((c) => c.index),
+      ).toStrictEqual([2, 4])
+      dispatchBoth(ActionCreators.undo())
+      dispatchBoth(ActionCreators.redo())
+      dispatchBoth(ActionCreators.redo())
+
+      dispatchBoth(ActionCreators.reset())
+      expect(withCheckpoints.getState()[HISTORY_KEY].checkpoints).toStrictEqual(
+        [],
+      )
+      dispatchBoth({ type: 'counter/increment', payload: 3 })
+      dispatchBoth({ type: 'counter/increment', payload: 4 })
+      dispatchBoth(ActionCreators.undo())
+    },
+  )
+})
+
+describe.concurrent('undoableActions with maxHistory', () => {
+  it.concurrent('should fold the oldest actions into the snapshot', () => {
+    const store = createStore(
+      undoableActions(counterReducer, { maxHistory: 2 }),
+    )
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch({ type: 'counter/increment', payload: 3 })
+    expectCount(store, 6)
+    expectHistoryActions(store, [
+      { action: { type: 'counter/increment', payload: 2 }, undone: false },
+      { action: { type: 'counter/increment', payload: 3 }, undone: false },
+    ])
+    expect(store.getState()[HISTORY_KEY].snapshot.count).toStrictEqual(1)
+
+    store.dispatch(ActionCreators.undo())
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 1)
+    // compacted actions are no longer undoable
+    expect(store.getState().canUndo).toStrictEqual(false)
+    expect(store.getState().canRedo).toStrictEqual(true)
+
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 1)
+  })
+
+  it.concurrent('should never fold undone actions', () => {
+    const store = createStore(
+      undoableActions(counterReducer, {
+        maxHistory: 2,
+        trackedActions: ['counter/increment', 'counter/changeName'],
+        undoableActions: ['counter/increment'],
+      }),
+    )
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch(ActionCreators.undo())
+    store.dispatch({ type: 'counter/changeName', payload: 'A' })
+    store.dispatch({ type: 'counter/changeName', payload: 'B' })
+    expectHistoryActions(store, [
+      { action: { type: 'counter/increment', payload: 1 }, undone: true },
+      { action: { type: 'counter/changeName', payload: 'A' }, undone: false },
+      { action: { type: 'counter/changeName', payload: 'B' }, undone: false },
+    ])
+    expect(store.getState().canRedo).toStrictEqual(true)
+
+    store.dispatch(ActionCreators.redo())
+    expectCount(store, 1)
+    expect(store.getState().present.name).toStrictEqual('B')
+  })
+
+  it.concurrent('should keep checkpoints aligned after compaction', () => {
+    const store = createStore(
+      undoableActions(counterReducer, { maxHistory: 3, checkpointInterval: 2 }),
+    )
+    for (let i = 1; i <= 6; i++) {
+      store.dispatch({ type: 'counter/increment', payload: i })
+    }
+    const history = store.getState()[HISTORY_KEY]
+    expect(history.snapshot.count).toStrictEqual(6)
+    for (const { index, state } of history.checkpoints) {
+      expect(state.count).toStrictEqual(
+        history.actions
+          .slice(0, index)
+          .reduce((count, a) => count + (a.action.payload as number), 6),
+      )
+    }
+
+    store.dispatch(ActionCreators.undo())
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 10)
+  })
+
+  it.concurrent('should compact hydrated history', () => {
+    const store = createStore(
+      undoableActions(counterReducer, { maxHistory: 1 }),
+    )
+    store.dispatch(
+      ActionCreators.hydrate({
+        actions: [
+          { action: { type: 'counter/increment' }, undone: false },
+          { action: { type: 'counter/increment', payload: 2 }, undone: false },
+        ],
+        tracking: true,
+        snapshot: { name: 'Counter', count: 10 },
+      }),
+    )
+    expectCount(store, 13)
+    expect(store.getState()[HISTORY_KEY].snapshot.count).toStrictEqual(11)
+    expectHistoryActions(store, [
+      { action: { type: 'counter/increment', payload: 2 }, undone: false },
+    ])
+  })
+
+  it.concurrent('should never fold part of a group', () => {
+    const store = createStore(
+      undoableActions(counterReducer, { maxHistory: 3 }),
+    )
+    store.dispatch({ type: 'counter/increment' })
+    store.dispatch(ActionCreators.beginGroup())
+    for (let i = 0; i < 4; i++) {
+      store.dispatch({ type: 'counter/increment' })
+    }
+    store.dispatch(ActionCreators.endGroup())
+    expectCount(store, 5)
+    expect(store.getState()[HISTORY_KEY].snapshot.count).toStrictEqual(1)
+
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 1)
+    store.dispatch(ActionCreators.redo())
+    expectCount(store, 5)
+
+    store.dispatch({ type: 'counter/increment' })
+    store.dispatch(ActionCreators.undo({ count: 2 }))
+    expectCount(store, 1)
+  })
+
+  it.concurrent('should never fold part of coalesced actions', () => {
+    let now = 0
+    const store = createStore(
+      undoableActions(counterReducer, {
+        maxHistory: 3,
+        groupBy: coalesceWithin(100, ['counter/increment']),
+        getTimestamp: () => now,
+      }),
+    )
+    for (let i = 0; i < 5; i++) {
+      now += 10
+      store.dispatch({ type: 'counter/increment' })
+    }
+    expectCount(store, 5)
+
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 0)
+    expect(store.getState().canUndo).toStrictEqual(false)
+  })
+})
+
+describe.concurrent('undoableActions with groups', () => {
+  it.concurrent('should undo and redo a group as a single step', () => {
+    const store = createStore(undoableActions(counterReducer))
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch(ActionCreators.beginGroup())
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch({ type: 'counter/changeName', payload: 'Grouped' })
+    store.dispatch({ type: 'counter/increment', payload: 3 })
+    store.dispatch(ActionCreators.endGroup())
+    expectCount(store, 6)
+    expectHistoryActions(store, [
+      { action: { type: 'counter/increment', payload: 1 }, undone: false },
+      {
+        action: { type: 'counter/increment', payload: 2 },
+        undone: false,
+        group: 1,
+      },
+      {
+        action: { type: 'counter/changeName', payload: 'Grouped' },
+        undone: false,
+        group: 1,
+      },
+      {
+        action: { type: 'counter/increment', payload: 3 },
+        undone: false,
+        group: 1,
+      },
+    ])
+
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 1)
+    expect(store.getState().present.name).toStrictEqual('Counter')
+    expect(store.getState().canUndo).toStrictEqual(true)
+    expect(store.getState().canRedo).toStrictEqual(true)
+
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 0)
+
+    store.dispatch(ActionCreators.redo())
+    expectCount(store, 1)
+
+    store.dispatch(ActionCreators.redo())
+    expectCount(store, 6)
+    expect(store.getState().present.name).toStrictEqual('Grouped')
+    expect(store.getState().canRedo).toStrictEqual(false)
+  })
+
+  it.concurrent('should keep adjacent groups apart', () => {
+    const store = createStore(undoableActions(counterReducer))
+    store.dispatch(ActionCreators.beginGroup())
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch(ActionCreators.endGroup())
+    store.dispatch(ActionCreators.beginGroup())
+    store.dispatch({ type: 'counter/increment', payload: 3 })
+    store.dispatch({ type: 'counter/increment', payload: 4 })
+    store.dispatch(ActionCreators.endGroup())
+    expectCount(store, 10)
+
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 3)
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 0)
+    expect(store.getState().canUndo).toStrictEqual(false)
+  })
+
+  it.concurrent('should merge nested groups into the outermost one', () => {
+    const store = createStore(undoableActions(counterReducer))
+    store.dispatch(ActionCreators.beginGroup())
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch(ActionCreators.beginGroup())
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch(ActionCreators.endGroup())
+    store.dispatch({ type: 'counter/increment', payload: 3 })
+    store.dispatch(ActionCreators.endGroup())
+    store.dispatch({ type: 'counter/increment', payload: 4 })
+    expect(store.getState()[HISTORY_KEY].group).toBeUndefined()
+
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 6)
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 0)
+  })
+
+  it.concurrent('should only undo undoable actions of a group', () => {
+    const store = createStore(
+      undoableActions(counterReducer, {
+        undoableActions: ['counter/increment'],
+      }),
+    )
+    store.dispatch(ActionCreators.beginGroup())
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch({ type: 'counter/changeName', payload: 'Kept' })
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch(ActionCreators.endGroup())
+
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 0)
+    expect(store.getState().present.name).toStrictEqual('Kept')
+  })
+
+  it.concurrent('should undo hydrated groups as a single step', () => {
+    const store = createStore(
+      undoableActions(counterReducer, { checkpointInterval: 1 }),
+    )
+    store.dispatch(
+      ActionCreators.hydrate({
+        actions: [
+          { action: { type: 'counter/increment' }, undone: false, group: 4 },
+          { action: { type: 'counter/increment' }, undone: false, group: 4 },
+          { action: { type: 'counter/increment' }, undone: false, group: 7 },
+        ],
+        tracking: true,
+      }),
+    )
+    expectCount(store, 3)
+
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 2)
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 0)
+
+    store.dispatch(ActionCreators.redo())
+    expectCount(store, 2)
+
+    // new groups never reuse hydrated ids
+    store.dispatch(ActionCreators.beginGroup())
+    expect(store.getState()[HISTORY_KEY].group).toStrictEqual({
+      id: 8,
+      depth: 1,
+    })
+  })
+})
+
+describe.concurrent('undoableActions with groupBy', () => {
+  it.concurrent('should coalesce consecutive actions within a window', () => {
+    let now = 0
+    const store = createStore(
+      undoableActions(counterReducer, {
+        groupBy: coalesceWithin(100, ['counter/increment']),
+        getTimestamp: () => now,
+      }),
+    )
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    now = 50
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    now = 150
+    store.dispatch({ type: 'counter/increment', payload: 3 })
+    now = 300
+    store.dispatch({ type: 'counter/increment', payload: 4 })
+    now = 310
+    store.dispatch({ type: 'counter/changeName', payload: 'Other' })
+    expectHistoryActions(store, [
+      {
+        action: { type: 'counter/increment', payload: 1 },
+        undone: false,
+        timestamp: 0,
+        group: 1,
+      },
+      {
+        action: { type: 'counter/increment', payload: 2 },
+        undone: false,
+        timestamp: 50,
+        group: 1,
+      },
+      {
+        action: { type: 'counter/increment', payload: 3 },
+        undone: false,
+        timestamp: 150,
+        group: 1,
+      },
+      {
+        action: { type: 'counter/increment', payload: 4 },
+        undone: false,
+        timestamp: 300,
+      },
+      {
+        action: { type: 'counter/changeName', payload: 'Other' },
+        undone: false,
+        timestamp: 310,
+      },
+    ])
+
+    store.dispatch(ActionCreators.undo())
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 6)
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 0)
+    expect(store.getState().canUndo).toStrictEqual(false)
+  })
+
+  it.concurrent('should not coalesce with an undone action', () => {
+    let now = 0
+    const store = createStore(
+      undoableActions(counterReducer, {
+        groupBy: () => true,
+        getTimestamp: () => now++,
+      }),
+    )
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 0)
+
+    store.dispatch(ActionCreators.redo())
+    store.dispatch(ActionCreators.undo())
+    store.dispatch({ type: 'counter/increment', payload: 5 })
+    expectHistoryActions(store, [
+      {
+        action: { type: 'counter/increment', payload: 5 },
+        undone: false,
+        timestamp: 2,
+      },
+    ])
+  })
+
+  it.concurrent('should prefer an open group over groupBy', () => {
+    const store = createStore(
+      undoableActions(counterReducer, {
+        groupBy: () => true,
+        getTimestamp: () => 0,
+      }),
+    )
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch(ActionCreators.beginGroup())
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch(ActionCreators.endGroup())
+
+    store.dispatch(ActionCreators.undo())
+    expectCount(store, 1)
+  })
+})
+
+describe.concurrent('undoableActions with jumpTo', () => {
+  it.concurrent('should jump backwards and forwards in history', () => {
+    const store = createStore(
+      undoableActions(counterReducer, { checkpointInterval: 2 }),
+    )
+    for (let i = 1; i <= 5; i++) {
+      store.dispatch({ type: 'counter/increment', payload: i })
+    }
+
+    store.dispatch(ActionCreators.jumpTo(1))
+    expectCount(store, 3)
+    expect(
+      store.getState()[HISTORY_KEY].actions.map((a) => a.undone),
+    ).toStrictEqual([false, false, true, true, true])
+    expect(store.getState().canUndo).toStrictEqual(true)
+    expect(store.getState().canRedo).toStrictEqual(true)
+
+    store.dispatch(ActionCreators.jumpTo(3))
+    expectCount(store, 10)
+
+    store.dispatch(ActionCreators.jumpTo(-1))
+    expectCount(store, 0)
+    expect(store.getState().canUndo).toStrictEqual(false)
+
+    store.dispatch(ActionCreators.jumpTo(4))
+    expectCount(store, 15)
+    expect(store.getState().canRedo).toStrictEqual(false)
+  })
+
+  it.concurrent('should ignore invalid indexes', () => {
+    const store = createStore(undoableActions(counterReducer))
+    store.dispatch({ type: 'counter/increment' })
+    const state = store.getState()
+
+    store.dispatch(ActionCreators.jumpTo(1))
+    store.dispatch(ActionCreators.jumpTo(-2))
+    store.dispatch(ActionCreators.jumpTo(0.5))
+    store.dispatch(ActionCreators.jumpTo(0))
+    expect(store.getState()).toBe(state)
+  })
+
+  it.concurrent('should not change non-undoable actions', () => {
+    const store = createStore(
+      undoableActions(counterReducer, {
+        undoableActions: ['counter/increment'],
+      }),
+    )
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch({ type: 'counter/changeName', payload: 'Kept' })
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+
+    store.dispatch(ActionCreators.jumpTo(-1))
+    expectCount(store, 0)
+    expect(store.getState().present.name).toStrictEqual('Kept')
+  })
+
+  it.concurrent('should keep groups together', () => {
+    const store = createStore(undoableActions(counterReducer))
+    store.dispatch(ActionCreators.beginGroup())
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch(ActionCreators.endGroup())
+    store.dispatch({ type: 'counter/increment', payload: 3 })
+
+    store.dispatch(ActionCreators.jumpTo(0))
+    expectCount(store, 3)
+  })
+
+  it.concurrent('should support custom internal action types', () => {
+    const store = createStore(
+      undoableActions(counterReducer, {
+        internalActions: { jumpTo: 'counter/jumpTo' },
+      }),
+    )
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+
+    store.dispatch({ type: 'counter/jumpTo', payload: 0 })
+    expectCount(store, 1)
+  })
+})
+
+describe.concurrent('undoableActions with multiple steps', () => {
+  it.concurrent('should undo and redo a number of steps', () => {
+    let calls = 0
+    const countingReducer: typeof counterReducer = (state, action) => {
+      calls++
+      return counterReducer(state, action)
+    }
+    const store = createStore(undoableActions(countingReducer))
+    for (let i = 1; i <= 5; i++) {
+      store.dispatch({ type: 'counter/increment', payload: i })
+    }
+
+    calls = 0
+    store.dispatch(ActionCreators.undo({ count: 3 }))
+    expectCount(store, 3)
+    // a single replay of the two remaining actions
+    expect(calls).toStrictEqual(2)
+
+    store.dispatch(ActionCreators.redo({ count: 2 }))
+    expectCount(store, 10)
+
+    store.dispatch(ActionCreators.undo({ count: 10 }))
+    expectCount(store, 0)
+    expect(store.getState().canUndo).toStrictEqual(false)
+
+    store.dispatch(ActionCreators.redo({ count: 10 }))
+    expectCount(store, 15)
+    expect(store.getState().canRedo).toStrictEqual(false)
+  })
+
+  it.concurrent('should count a group as a single step', () => {
+    const store = createStore(undoableActions(counterReducer))
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch(ActionCreators.beginGroup())
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch({ type: 'counter/increment', payload: 3 })
+    store.dispatch(ActionCreators.endGroup())
+    store.dispatch({ type: 'counter/increment', payload: 4 })
+
+    store.dispatch(ActionCreators.undo({ count: 2 }))
+    expectCount(store, 1)
+  })
+
+  it.concurrent('should undo and redo while the predicate matches', () => {
+    let now = 0
+    const store = createStore(
+      undoableActions(counterReducer, {
+        groupBy: () => false,
+        getTimestamp: () => (now += 10),
+      }),
+    )
+    for (let i = 1; i <= 5; i++) {
+      store.dispatch({ type: 'counter/increment', payload: i })
+    }
+
+    store.dispatch(
+      ActionCreators.undo({
+        predicate: (a) => (a.timestamp ?? 0) > 20,
+      }),
+    )
+    expectCount(store, 3)
+
+    store.dispatch(
+      ActionCreators.redo({
+        predicate: (a) => (a.timestamp ?? 0) <= 40,
+      }),
+    )
+    expectCount(store, 10)
+  })
+
+  it.concurrent('should keep the state when no step applies', () => {
+    const store = createStore(undoableActions(counterReducer))
+    store.dispatch({ type: 'counter/increment' })
+    const state = store.getState()
+
+    store.dispatch(ActionCreators.undo({ count: 0 }))
+    store.dispatch(ActionCreators.undo({ predicate: () => false }))
+    expect(store.getState()).toBe(state)
+  })
+})
+
+describe.concurrent('undoableActions with historyMode tree', () => {
+  it.concurrent('should keep the redo stack as a branch', () => {
+    const store = createStore(
+      undoableActions(counterReducer, { historyMode: 'tree' }),
+    )
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch(ActionCreators.undo())
+    store.dispatch({ type: 'counter/increment', payload: 10 })
+    expectCount(store, 11)
+    expect(store.getState().canRedo).toStrictEqual(false)
+
+    expect(
+      getBranches(store.getState()).map(({ id, actions, current }) => ({
+        id,
+        current,
+        payloads: actions.map((a) => [a.action.payload, a.undone]),
+      })),
+    ).toStrictEqual([
+      {
+        id: 0,
+        current: false,
+        payloads: [
+          [1, false],
+          [2, true],
+        ],
+      },
+      {
+        id: 1,
+        current: true,
+        payloads: [
+          [1, false],
+          [10, false],
+        ],
+      },
+    ])
+
+    store.dispatch(ActionCreators.switchBranch(0))
+    expectCount(store, 1)
+    expect(store.getState().canRedo).toStrictEqual(true)
+    store.dispatch(ActionCreators.redo())
+    expectCount(store, 3)
+
+    store.dispatch(ActionCreators.switchBranch(1))
+    expectCount(store, 11)
+    expect(
+      getBranches(store.getState()).find((b) => b.id === 0)?.actions,
+    ).toHaveLength(2)
+  })
+
+  it.concurrent('should create nested branches', () => {
+    const store = createStore(
+      undoableActions(counterReducer, {
+        historyMode: 'tree',
+        checkpointInterval: 1,
+      }),
+    )
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch(ActionCreators.undo())
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch(ActionCreators.undo())
+    store.dispatch({ type: 'counter/increment', payload: 3 })
+    expectCount(store, 3)
+    expect(getBranches(store.getState()).map((b) => b.id)).toStrictEqual([
+      0, 1, 2,
+    ])
+
+    store.dispatch(ActionCreators.switchBranch(1))
+    expectCount(store, 0)
+    store.dispatch(ActionCreators.redo())
+    expectCount(store, 2)
+    store.dispatch(ActionCreators.switchBranch(0))
+    expectCount(store, 0)
+    store.dispatch(ActionCreators.redo())
+    expectCount(store, 1)
+  })
+
+  it.concurrent('should ignore unknown branches', () => {
+    const store = createStore(
+      undoableActions(counterReducer, { historyMode: 'tree' }),
+    )
+    store.dispatch({ type: 'counter/increment' })
+    const state = store.getState()
+
+    store.dispatch(ActionCreators.switchBranch(5))
+    expect(store.getState()).toBe(state)
+  })
+
+  it.concurrent('should not keep branches in linear mode', () => {
+    const store = createStore(undoableActions(counterReducer))
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch(ActionCreators.undo())
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    expect(store.getState()[HISTORY_KEY].branches).toBeUndefined()
+    expect(getBranches(store.getState())).toHaveLength(1)
+  })
+
+  it.concurrent('should hydrate and reset branches', () => {
+    const store = createStore(
+      undoableActions(counterReducer, { historyMode: 'tree' }),
+    )
+    store.dispatch(
+      ActionCreators.hydrate({
+        actions: [{ action: { type: 'counter/increment' }, undone: false }],
+        tracking: true,
+        branches: [
+          {
+            id: 3,
+            actions: [{ action: { type: 'counter/decrement' }, undone: false }],
+          },
+        ],
+        branch: 4,
+      }),
+    )
+    expectCount(store, 1)
+    store.dispatch(ActionCreators.switchBranch(3))
+    expectCount(store, -1)
+
+    store.dispatch(ActionCreators.reset())
+    expect(getBranches(store.getState())).toStrictEqual([
+      { id: 0, actions: [], current: true },
+    ])
+  })
+
+  it.concurrent('should drop branches that are no longer reachable', () => {
+    const store = createStore(
+      undoableActions(counterReducer, { historyMode: 'tree', maxHistory: 2 }),
+    )
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch(ActionCreators.undo())
+    store.dispatch({ type: 'counter/increment', payload: 3 })
+    // branch 0 shares the first action with the current branch
+    store.dispatch({ type: 'counter/increment', payload: 4 })
+    expect(
+      getBranches(store.getState()).map((b) => [b.id, b.actions.length]),
+    ).toStrictEqual([
+      [0, 1],
+      [1, 2],
+    ])
+
+    store.dispatch({ type: 'counter/increment', payload: 5 })
+    expect(getBranches(store.getState()).map((b) => b.id)).toStrictEqual([1])
+  })
+})
+
+describe.concurrent('undoableActions with bookmarks', () => {
+  it.concurrent('should bookmark and restore positions', () => {
+    const store = createStore(undoableActions(counterReducer))
+    store.dispatch(ActionCreators.bookmark('empty'))
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch(ActionCreators.bookmark('before import'))
+    store.dispatch({ type: 'counter/increment', payload: 3 })
+    expect(store.getState().bookmarks).toStrictEqual([
+      { name: 'empty', index: -1 },
+      { name: 'before import', index: 1 },
+    ])
+
+    store.dispatch(ActionCreators.restoreBookmark('before import'))
+    expectCount(store, 3)
+    expect(store.getState().canRedo).toStrictEqual(true)
+
+    store.dispatch(ActionCreators.restoreBookmark('empty'))
+    expectCount(store, 0)
+
+    store.dispatch(ActionCreators.redo({ count: 3 }))
+    expectCount(store, 6)
+
+    store.dispatch(ActionCreators.restoreBookmark('unknown'))
+    expectCount(store, 6)
+  })
+
+  it.concurrent('should replace bookmarks with the same name', () => {
+    const store = createStore(undoableActions(counterReducer))
+    store.dispatch(ActionCreators.bookmark('approved'))
+    store.dispatch({ type: 'counter/increment' })
+    store.dispatch(ActionCreators.bookmark('approved'))
+    expect(store.getState().bookmarks).toStrictEqual([
+      { name: 'approved', index: 0 },
+    ])
+  })
+
+  it.concurrent('should drop bookmarks of a discarded future', () => {
+    const store = createStore(undoableActions(counterReducer))
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch(ActionCreators.bookmark('kept'))
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch(ActionCreators.bookmark('dropped'))
+    store.dispatch(ActionCreators.undo())
+    store.dispatch({ type: 'counter/increment', payload: 5 })
+    expect(store.getState().bookmarks).toStrictEqual([
+      { name: 'kept', index: 0 },
+    ])
+  })
+
+  it.concurrent('should keep bookmarks valid after compaction', () => {
+    const store = createStore(
+      undoableActions(counterReducer, { maxHistory: 2 }),
+    )
+    store.dispatch(ActionCreators.bookmark('start'))
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch(ActionCreators.bookmark('one'))
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch(ActionCreators.bookmark('two'))
+    store.dispatch({ type: 'counter/increment', payload: 3 })
+    expect(store.getState().bookmarks).toStrictEqual([
+      { name: 'one', index: -1 },
+      { name: 'two', index: 0 },
+    ])
+
+    store.dispatch(ActionCreators.restoreBookmark('one'))
+    expectCount(store, 1)
+  })
+
+  it.concurrent('should restore bookmarks of other branches', () => {
+    const store = createStore(
+      undoableActions(counterReducer, { historyMode: 'tree' }),
+    )
+    store.dispatch({ type: 'counter/increment', payload: 1 })
+    store.dispatch({ type: 'counter/increment', payload: 2 })
+    store.dispatch(ActionCreators.bookmark('first branch'))
+    store.dispatch(ActionCreators.undo())
+    store.dispatch({ type: 'counter/increment', payload: 10 })
+    expectCount(store, 11)
+
+    store.dispatch(ActionCreators.restoreBookmark('first branch'))
+    expectCount(store, 3)
+    expect(store.getState()[HISTORY_KEY].branch).toStrictEqual(0)
+  })
+
+  it.concurrent('should hydrate and reset bookmarks', () => {
+    const store = createStore(undoableActions(counterReducer))
+    store.dispatch(
+      ActionCreators.hydrate({
+        actions: [
+          { action: { type: 'counter/increment' }, undone: false },
+          { action: { type: 'counter/increment' }, undone: false },
+        ],
+        tracking: true,
+        bookmarks: [{ name: 'saved', index: 0 }],
+      }),
+    )
+    expect(store.getState().bookmarks).toStrictEqual([
+      { name: 'saved', index: 0 },
+    ])
+    store.dispatch(ActionCreators.restoreBookmark('saved'))
+    expectCount(store, 1)
+
+    store.dispatch(ActionCreators.reset())
+    expect(store.getState().bookmarks).toStrictEqual([])
+  })
 })
@@ -0,0 +1,119 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest'
+import {
+  applyMiddleware,
+  combineReducers,
+  legacy_createStore as createStore,
+  type UnknownAction,
+} from 'redux'
+import {
+  ActionCreators,
+  createMemoryStorage,
+  createUndoableInstance,
+  type UndoRedoPayload,
+} from '../src'
+
+interface ShapesState {
+  shapes: string[]
+}
+
+const shapesReducer = (
+  state: ShapesState = { shapes: [] },
+  action: UnknownAction,
+): ShapesState =>
+  action.type === 'shapes/add'
+    ? { shapes: [...state.shapes, action.payload as string] }
+    : state
+
+describe.concurrent('createUndoableInstance', () => {
+  it.concurrent('should undo and redo with the instance actions', () => {
+    const canvas = createUndoableInstance('canvas', shapesReducer)
+    const store = createStore(combineReducers({ canvas: canvas.reducer }))
+
+    store.dispatch({ type: 'shapes/add', payload: 'circle' })
+    store.dispatch({ type: 'shapes/add', payload: 'square' })
+    store.dispatch(canvas.actions.undo())
+    expect(store.getState().canvas.present.shapes).toEqual(['circle'])
+
+    store.dispatch(ActionCreators.redo())
+    expect(store.getState().canvas.present.shapes).toEqual(['circle'])
+    store.dispatch(canvas.actions.redo())
+    expect(store.getState().canvas.present.shapes).toEqual(['circle', 'square'])
+  })
+
+  it.concurrent('should keep instances apart', () => {
+    const canvas = createUndoableInstance('canvas', shapesReducer)
+    const preview = createUndoableInstance('preview', shapesReducer)
+    const store = createStore(
+      combineReducers({ canvas: canvas.reducer, preview: preview.reducer }),
+    )
+
+    store.dispatch({ type: 'shapes/add', payload: 'circle' })
+    store.dispatch(canvas.actions.undo())
+
+    expect(canvas.internalActions.undo).toBe('canvas/undo')
+    expect(preview.internalActions.undo).toBe('preview/undo')
+    expect(store.getState().canvas.present.shapes).toEqual([])
+    expect(store.getState().preview.present.shapes).toEqual(['circle'])
+  })
+
+  it.concurrent('should select with the instance undoableActions', () => {
+    const canvas = createUndoableInstance('canvas', shapesReducer, {
+      trackedActions: ['shapes/add', 'shapes/select'],
+      undoableActions: ['shapes/add'],
+    })
+    let state = canvas.reducer(undefined, { type: '@@init' })
+    state = canvas.reducer(state, { type: 'shapes/add', payload: 'circle' })
+    state = canvas.reducer(state, { type: 'shapes/select' })
+
+    expect(canvas.selectors.selectUndoableCount(state)).toBe(1)
+    expect(canvas.selectors.selectNextUndoAction(state)?.action.type).toBe(
+      'shapes/add',
+    )
+  })
+
+  it.concurrent('should tell the instance actions apart', () => {
+    const canvas = createUndoableInstance('canvas', shapesReducer)
+    const preview = createUndoableInstance('preview', shapesReducer)
+    const action: unknown = canvas.actions.undo({ count: 2 })
+
+    expect(canvas.isUndoAction(action)).toBe(true)
+    expect(canvas.isRedoAction(action)).toBe(false)
+    expect(preview.isUndoAction(action)).toBe(false)
+    expect(canvas.isUndoAction(ActionCreators.undo())).toBe(false)
+    expect(canvas.isResetAction(canvas.actions.reset())).toBe(true)
+    expect(canvas.isBeginGroupAction(canvas.actions.beginGroup())).toBe(true)
+    expect(canvas.isUndoAction(null)).toBe(false)
+    expect(canvas.isUndoAction('canvas/undo')).toBe(false)
+
+    if (canvas.isUndoAction(action)) {
+      expectTypeOf(action.payload).toEqualTypeOf<UndoRedoPayload | undefined>()
+    }
+    if (canvas.isBookmarkAction(action)) {
+      expectTypeOf(action.payload).toEqualTypeOf<string>()
+    }
+  })
+
+  it.concurrent('should return a middleware with persistence', async () => {
+    const storage = createMemoryStorage()
+    const canvas = createUndoableInstance('canvas', shapesReducer, {
+      persistence: {
+        reducerKey: 'canvas',
+        getStorageKey: () => 'canvas',
+        storage,
+      },
+    })
+    const store = createStore(
+      combineReducers({ canvas: canvas.reducer }),
+      applyMiddleware(canvas.middleware),
+    )
+
+    store.dispatch({ type: 'shapes/add', payload: 'circle' })
+    await canvas.flush()
+    expect(await storage.getItem('canvas')).toContain('circle')
+
+    store.dispatch(canvas.actions.reset())
+    await vi.waitFor(async () => {
+      expect(await storage.getItem('canvas')).toBeNull()
+    })
+  })
+})
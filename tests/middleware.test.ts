@@ -1,4 +1,4 @@
-import { describe, expect, it, vi } from 'vitest'
+import { describe, expect, it, type Mock, vi } from 'vitest'
 import {
   applyMiddleware,
   combineReducers,
@@ -7,10 +7,16 @@ import {
 } from 'redux'
 import {
   ActionCreators,
+  createMemoryStorage,
+  type ExportedHistory,
   type HistoryState,
   type PartialUndoableActionsConfig,
   persistedUndoableActions,
   type Persistence,
+  SerializationError,
+  StorageQuotaError,
+  taggedJsonSerializer,
+  UnknownVersionError,
 } from '../src'
 import { HISTORY_KEY } from '../src/actions'
 
@@ -29,6 +35,8 @@ describe.concurrent('persistedUndoableActions', () => {
       tracking: false,
       actions: [],
       snapshot: initialState,
+      checkpoints: [],
+      bookmarks: [],
     })
 
     // wait for "possible" save
@@ -59,6 +67,8 @@ describe.concurrent('persistedUndoableActions', () => {
           { action: { type: 'counter/increment' }, undone: false },
         ],
         snapshot: { id: 'counter-id', count: 0 },
+        checkpoints: [],
+        bookmarks: [],
       })
 
       store.dispatch({ type: 'counter/reset' })
@@ -68,6 +78,8 @@ describe.concurrent('persistedUndoableActions', () => {
         tracking: true,
         actions: [],
         snapshot: { id: 'counter-id', count: 0 },
+        checkpoints: [],
+        bookmarks: [],
       })
 
       expect(mockStorage.getItem).not.toHaveBeenCalled()
@@ -96,6 +108,8 @@ describe.concurrent('persistedUndoableActions', () => {
         tracking: true,
         actions: [{ action: { type: 'counter/increment' }, undone: false }],
         snapshot: { id: 'counter-id', count: 0 },
+        checkpoints: [],
+        bookmarks: [],
       })
     })
   })
@@ -126,6 +140,8 @@ describe.concurrent('persistedUndoableActions', () => {
       tracking: true,
       actions: [{ action: { type: 'counter/increment' }, undone: false }],
       snapshot: { id: 'counter-id', count: 0 },
+      checkpoints: [],
+      bookmarks: [],
     })
     // wait for save
     expect(mockStorage.setItem).toHaveBeenCalledExactlyOnceWith(
@@ -134,6 +150,26 @@ describe.concurrent('persistedUndoableActions', () => {
     )
   })
 
+  it.concurrent('should save once when undoing several steps', async () => {
+    const { store, mockStorage } = getStore()
+
+    store.dispatch({ type: 'counter/start' })
+    await sleep(50)
+    store.dispatch({ type: 'counter/increment' })
+    await sleep(50)
+    store.dispatch({ type: 'counter/increment' })
+    await sleep(50)
+    store.dispatch({ type: 'counter/increment' })
+    await sleep(50)
+    mockStorage.setItem.mockClear()
+
+    store.dispatch(ActionCreators.undo({ count: 3 }))
+    await sleep(50)
+
+    expect(store.getState().counter.present.count).toStrictEqual(0)
+    expect(mockStorage.setItem).toHaveBeenCalledOnce()
+  })
+
   it.concurrent('should reset state when reset action happens', async () => {
     const { store, mockStorage } = getStore({
       internalActions: {
@@ -150,6 +186,8 @@ describe.concurrent('persistedUndoableActions', () => {
       actions: [],
       tracking: false,
       snapshot: { ...initialState },
+      checkpoints: [],
+      bookmarks: [],
     })
 
     // prepare some state
@@ -159,6 +197,8 @@ describe.concurrent('persistedUndoableActions', () => {
         tracking: true,
         actions: [],
         snapshot: { ...initialState, count: 100 },
+        checkpoints: [],
+        bookmarks: [],
       })
     })
     store.dispatch({ type: 'counter/increment' })
@@ -183,6 +223,8 @@ describe.concurrent('persistedUndoableActions', () => {
         actions: [],
         tracking: true,
         snapshot: { ...initialState, count: 100 },
+        checkpoints: [],
+        bookmarks: [],
       })
     })
   })
@@ -212,6 +254,8 @@ describe.concurrent('persistedUndoableActions', () => {
       tracking: true,
       actions: [{ action: { type: 'counter/increment' }, undone: false }],
       snapshot: initialState,
+      checkpoints: [],
+      bookmarks: [],
     })
 
     await vi.waitFor(() => {
@@ -227,6 +271,567 @@ describe.concurrent('persistedUndoableActions', () => {
     spy.mockRestore()
   })
 
+  describe.concurrent('with an incremental storage', () => {
+    function getIncrementalStore(persistence?: Partial<Persistence>) {
+      const storage = createMemoryStorage()
+      const spies = {
+        setItem: vi.spyOn(storage, 'setItem'),
+        append: vi.spyOn(storage, 'append'),
+        truncate: vi.spyOn(storage, 'truncate'),
+      }
+      const { store } = getStore({ persistence: { ...persistence, storage } })
+
+      return { store, storage, spies }
+    }
+
+    async function reload(storage: Persistence['storage']) {
+      const { store } = getStore({ persistence: { storage } })
+      store.dispatch({ type: 'counter/start' })
+      await sleep(50)
+
+      return store.getState().counter
+    }
+
+    it.concurrent('should append deltas after a full save', async () => {
+      const { store, storage, spies } = getIncrementalStore()
+
+      store.dispatch({ type: 'counter/start' })
+      await sleep(50)
+      store.dispatch({ type: 'counter/increment' })
+      await sleep(50)
+      store.dispatch({ type: 'counter/increment', payload: 2 })
+      await sleep(50)
+      store.dispatch(ActionCreators.undo())
+      await sleep(50)
+      store.dispatch({ type: 'counter/decrement' })
+      await sleep(50)
+
+      expect(spies.setItem).toHaveBeenCalledOnce()
+      expect(spies.truncate).toHaveBeenCalledExactlyOnceWith(
+        'key-counter-id',
+        0,
+      )
+      expect(await storage.getEntries('key-counter-id')).toEqual([
+        JSON.stringify({
+          from: 1,
+          actions: [
+            {
+              action: { type: 'counter/increment', payload: 2 },
+              undone: false,
+            },
+          ],
+        }),
+        JSON.stringify({
+          from: 1,
+          actions: [
+            { action: { type: 'counter/increment', payload: 2 }, undone: true },
+          ],
+        }),
+        JSON.stringify({
+          from: 1,
+          actions: [{ action: { type: 'counter/decrement' }, undone: false }],
+        }),
+      ])
+
+      const reloaded = await reload(storage)
+      expect(reloaded.present.count).toEqual(0)
+      expect(reloaded[HISTORY_KEY].actions).toEqual(
+        store.getState().counter[HISTORY_KEY].actions,
+      )
+    })
+
+    it.concurrent(
+      'should rewrite the whole history every compactionInterval deltas',
+      async () => {
+        const { store, storage, spies } = getIncrementalStore({
+          compactionInterval: 2,
+        })
+
+        store.dispatch({ type: 'counter/start' })
+        await sleep(50)
+        for (let i = 0; i < 5; i++) {
+          store.dispatch({ type: 'counter/increment' })
+          await sleep(20)
+        }
+
+        // full, delta, delta, full, delta
+        expect(spies.setItem).toHaveBeenCalledTimes(2)
+        expect(spies.append).toHaveBeenCalledTimes(3)
+        expect(await storage.getEntries('key-counter-id')).toHaveLength(1)
+        expect((await reload(storage)).present.count).toEqual(5)
+      },
+    )
+
+    it.concurrent(
+      'should rewrite the whole history when more than actions change',
+      async () => {
+        const { store, storage, spies } = getIncrementalStore()
+
+        store.dispatch({ type: 'counter/start' })
+        await sleep(50)
+        store.dispatch({ type: 'counter/increment' })
+        await sleep(50)
+        store.dispatch({ type: 'counter/increment' })
+        await sleep(50)
+        store.dispatch(ActionCreators.bookmark('two'))
+        await sleep(50)
+
+        expect(spies.setItem).toHaveBeenCalledTimes(2)
+        expect(await storage.getEntries('key-counter-id')).toEqual([])
+        expect((await reload(storage)).bookmarks).toEqual([
+          { name: 'two', index: 1 },
+        ])
+      },
+    )
+
+    it.concurrent('should save in full after loading', async () => {
+      const storage = createMemoryStorage()
+      const { store } = getStore({ persistence: { storage } })
+      store.dispatch({ type: 'counter/start' })
+      await sleep(50)
+      store.dispatch({ type: 'counter/increment' })
+      await sleep(50)
+      store.dispatch({ type: 'counter/increment' })
+      await sleep(50)
+
+      const { store: reloadedStore } = getStore({ persistence: { storage } })
+      reloadedStore.dispatch({ type: 'counter/start' })
+      await sleep(50)
+      reloadedStore.dispatch(ActionCreators.undo())
+      await sleep(50)
+
+      expect(await storage.getEntries('key-counter-id')).toEqual([])
+      expect((await reload(storage)).present.count).toEqual(1)
+    })
+  })
+
+  describe.concurrent('with delayed saves', () => {
+    const getSavedCounts = (mockStorage: { setItem: Mock }) =>
+      mockStorage.setItem.mock.calls.map(
+        ([, value]) =>
+          (
+            JSON.parse(value as string) as ExportedHistory<
+              unknown,
+              UnknownAction
+            >
+          ).actions.length,
+      )
+
+    it.concurrent('should debounce saves', async () => {
+      const { store, mockStorage } = getStore({
+        persistence: { saveDebounceMs: 50 },
+      })
+      store.dispatch({ type: 'counter/start' })
+      await sleep(50)
+
+      for (let i = 0; i < 3; i++) {
+        store.dispatch({ type: 'counter/increment' })
+        await sleep(20)
+      }
+      expect(mockStorage.setItem).not.toHaveBeenCalled()
+
+      await sleep(100)
+      expect(getSavedCounts(mockStorage)).toEqual([3])
+    })
+
+    it.concurrent('should throttle saves', async () => {
+      const { store, mockStorage } = getStore({
+        persistence: { saveThrottleMs: 100 },
+      })
+      store.dispatch({ type: 'counter/start' })
+      await sleep(50)
+
+      for (let i = 0; i < 3; i++) {
+        store.dispatch({ type: 'counter/increment' })
+        await sleep(10)
+      }
+      expect(getSavedCounts(mockStorage)).toEqual([1])
+
+      await sleep(150)
+      expect(getSavedCounts(mockStorage)).toEqual([1, 3])
+    })
+
+    it.concurrent('should save long bursts when throttled', async () => {
+      const { store, mockStorage } = getStore({
+        persistence: { saveDebounceMs: 50, saveThrottleMs: 100 },
+      })
+      store.dispatch({ type: 'counter/start' })
+      await sleep(50)
+
+      for (let i = 0; i < 10; i++) {
+        store.dispatch({ type: 'counter/increment' })
+        await sleep(20)
+      }
+      expect(mockStorage.setItem).toHaveBeenCalled()
+
+      await sleep(100)
+      expect(getSavedCounts(mockStorage).at(-1)).toEqual(10)
+    })
+
+    it.concurrent('should write pending saves on flush', async () => {
+      const { store, mockStorage, flush } = getStore({
+        persistence: { saveDebounceMs: 10_000 },
+      })
+      store.dispatch({ type: 'counter/start' })
+      await sleep(50)
+      store.dispatch({ type: 'counter/increment' })
+      store.dispatch({ type: 'counter/increment' })
+
+      await flush()
+      expect(getSavedCounts(mockStorage)).toEqual([2])
+
+      // nothing left to save
+      await flush()
+      expect(mockStorage.setItem).toHaveBeenCalledOnce()
+    })
+
+    it.concurrent('should discard pending saves on reset', async () => {
+      const { store, mockStorage, flush } = getStore({
+        persistence: { saveDebounceMs: 10_000 },
+      })
+      store.dispatch({ type: 'counter/start' })
+      await sleep(50)
+      store.dispatch({ type: 'counter/increment' })
+      store.dispatch({ type: 'counter/reset' })
+      await sleep(50)
+
+      await flush()
+      expect(mockStorage.removeItem).toHaveBeenCalledOnce()
+      expect(mockStorage.setItem).not.toHaveBeenCalled()
+    })
+
+    it.concurrent('should flush when the page is hidden', async () => {
+      const listeners = new Map<string, () => void>()
+      vi.stubGlobal('addEventListener', (type: string, listener: () => void) =>
+        listeners.set(type, listener),
+      )
+      const { store, mockStorage } = getStore({
+        persistence: { saveDebounceMs: 10_000, flushOnUnload: true },
+      })
+      vi.unstubAllGlobals()
+      expect([...listeners.keys()]).toEqual(['pagehide', 'beforeunload'])
+
+      store.dispatch({ type: 'counter/start' })
+      await sleep(50)
+      store.dispatch({ type: 'counter/increment' })
+      listeners.get('pagehide')?.()
+
+      // the write starts synchronously
+      expect(getSavedCounts(mockStorage)).toEqual([1])
+    })
+
+    it.concurrent(
+      'should only listen to unloads while applied to a store',
+      () => {
+        const listeners = new Map<string, () => void>()
+        vi.stubGlobal(
+          'addEventListener',
+          (type: string, listener: () => void) => listeners.set(type, listener),
+        )
+        vi.stubGlobal(
+          'removeEventListener',
+          (type: string, listener: () => void) => {
+            if (listeners.get(type) === listener) {
+              listeners.delete(type)
+            }
+          },
+        )
+        const { persistedReducer } = getReducer({
+          persistence: { flushOnUnload: true },
+        })
+        expect(listeners.size).toBe(0)
+
+        createStore(
+          combineReducers({ counter: persistedReducer.reducer }),
+          applyMiddleware(persistedReducer.middleware),
+        )
+        expect([...listeners.keys()]).toEqual(['pagehide', 'beforeunload'])
+
+        persistedReducer.dispose()
+        vi.unstubAllGlobals()
+        expect(listeners.size).toBe(0)
+      },
+    )
+  })
+
+  describe.concurrent('with a slow storage', () => {
+    function getSlowStore(delay = 50, items?: Record<string, string>) {
+      const memory = createMemoryStorage(items)
+      const storage = {
+        getItem: vi.fn(async (key: string) => {
+          await sleep(delay)
+          return memory.getItem(key)
+        }),
+        setItem: vi.fn(async (key: string, value: string) => {
+          await sleep(delay)
+          await memory.setItem(key, value)
+        }),
+        removeItem: vi.fn(async (key: string) => {
+          await sleep(delay)
+          await memory.removeItem(key)
+        }),
+      }
+      const { store } = getStore({ persistence: { storage } })
+
+      const getStoredCount = async () => {
+        const stored = await memory.getItem('key-counter-id')
+        return stored === null
+          ? undefined
+          : (JSON.parse(stored) as ExportedHistory<unknown, UnknownAction>)
+              .actions.length
+      }
+
+      return { store, storage, getStoredCount }
+    }
+
+    it.concurrent('should save the newest history of a burst', async () => {
+      const { store, storage, getStoredCount } = getSlowStore()
+      store.dispatch({ type: 'counter/start' })
+      await sleep(100)
+
+      for (let i = 0; i < 5; i++) {
+        store.dispatch({ type: 'counter/increment' })
+      }
+      await sleep(200)
+
+      // the first write, then a single one with the rest of the burst
+      expect(storage.setItem).toHaveBeenCalledTimes(2)
+      expect(await getStoredCount()).toEqual(5)
+    })
+
+    it.concurrent('should never lose the last actions', async () => {
+      const { store, storage, getStoredCount } = getSlowStore(30)
+      store.dispatch({ type: 'counter/start' })
+      await sleep(60)
+
+      for (let i = 0; i < 10; i++) {
+        store.dispatch({ type: 'counter/increment' })
+        await sleep(10)
+      }
+      await sleep(150)
+
+      expect(storage.setItem.mock.calls.length).toBeLessThan(10)
+      expect(await getStoredCount()).toEqual(10)
+    })
+
+    it.concurrent('should never write concurrently', async () => {
+      const { store, storage } = getSlowStore(20)
+      let writing = 0
+      let maxWriting = 0
+      const { setItem } = storage
+      storage.setItem = vi.fn(async (key: string, value: string) => {
+        maxWriting = Math.max(maxWriting, ++writing)
+        await setItem(key, value)
+        writing--
+      })
+      store.dispatch({ type: 'counter/start' })
+      await sleep(40)
+
+      for (let i = 0; i < 10; i++) {
+        store.dispatch({ type: 'counter/increment' })
+        await sleep(5)
+      }
+      await sleep(100)
+
+      expect(storage.setItem.mock.calls.length).toBeGreaterThan(1)
+      expect(maxWriting).toEqual(1)
+    })
+
+    it.concurrent(
+      'should remove the history after writes in progress',
+      async () => {
+        const { store, getStoredCount } = getSlowStore()
+        store.dispatch({ type: 'counter/start' })
+        await sleep(100)
+
+        store.dispatch({ type: 'counter/increment' })
+        store.dispatch({ type: 'counter/reset' })
+        await sleep(200)
+
+        expect(await getStoredCount()).toBeUndefined()
+      },
+    )
+
+    it.concurrent(
+      'should not save actions dispatched while loading over the stored history',
+      async () => {
+        const { store, storage, getStoredCount } = getSlowStore(50, {
+          'key-counter-id': JSON.stringify({
+            tracking: true,
+            actions: [
+              { action: { type: 'counter/increment' }, undone: false },
+              { action: { type: 'counter/increment' }, undone: false },
+            ],
+          }),
+        })
+
+        store.dispatch({ type: 'counter/start' })
+        store.dispatch({ type: 'counter/increment' })
+        await sleep(150)
+
+        expect(store.getState().counter[HISTORY_KEY].actions).toHaveLength(2)
+        expect(storage.setItem).not.toHaveBeenCalled()
+        expect(await getStoredCount()).toEqual(2)
+      },
+    )
+
+    it.concurrent('should load after writes in progress', async () => {
+      const { store } = getSlowStore()
+      store.dispatch({ type: 'counter/start' })
+      await sleep(100)
+
+      store.dispatch({ type: 'counter/increment' })
+      store.dispatch({ type: 'counter/start' })
+      await sleep(200)
+
+      expect(store.getState().counter[HISTORY_KEY].actions).toHaveLength(1)
+    })
+  })
+
+  it.concurrent('should report quota errors', async () => {
+    const onQuotaExceeded = vi.fn()
+    const { store, mockStorage } = getStore({
+      persistence: { onQuotaExceeded },
+    })
+    const error = new DOMException('full', 'QuotaExceededError')
+    mockStorage.setItem = vi.fn().mockRejectedValue(error)
+
+    store.dispatch({ type: 'counter/start' })
+    await sleep(50)
+    store.dispatch({ type: 'counter/increment' })
+
+    await vi.waitFor(() => {
+      expect(onQuotaExceeded).toHaveBeenCalledExactlyOnceWith(
+        expect.any(StorageQuotaError),
+        'key-counter-id',
+      )
+    })
+    expect(
+      (onQuotaExceeded.mock.lastCall as [StorageQuotaError, string])[0].cause,
+    ).toBe(error)
+  })
+
+  it.concurrent('should notify when loading and saving', async () => {
+    const onLoadStart = vi.fn()
+    const onLoaded = vi.fn()
+    const onSaved = vi.fn()
+    const { store } = getStore({
+      persistence: { onLoadStart, onLoaded, onSaved },
+    })
+
+    store.dispatch({ type: 'counter/start' })
+    expect(onLoadStart).toHaveBeenCalledExactlyOnceWith('key-counter-id')
+    await vi.waitFor(() => {
+      expect(onLoaded).toHaveBeenCalledExactlyOnceWith(
+        undefined,
+        'key-counter-id',
+      )
+    })
+    expect(onSaved).not.toHaveBeenCalled()
+
+    store.dispatch({ type: 'counter/increment' })
+    await vi.waitFor(() => {
+      expect(onSaved).toHaveBeenCalledExactlyOnceWith('key-counter-id')
+    })
+  })
+
+  it.concurrent('should report storage errors to onError', async () => {
+    const onError = vi.fn()
+    const onSaved = vi.fn()
+    const { store, mockStorage } = getStore({
+      persistence: { onError, onSaved },
+    })
+    const loadError = new Error('load failed')
+    const saveError = new DOMException('full', 'QuotaExceededError')
+    const removeError = new Error('remove failed')
+    mockStorage.getItem = vi.fn().mockRejectedValue(loadError)
+    mockStorage.setItem = vi.fn().mockRejectedValue(saveError)
+    mockStorage.removeItem = vi.fn().mockRejectedValue(removeError)
+
+    store.dispatch({ type: 'counter/start' })
+    await vi.waitFor(() => {
+      expect(onError).toHaveBeenCalledExactlyOnceWith(
+        'load',
+        loadError,
+        'key-counter-id',
+      )
+    })
+
+    store.dispatch({ type: 'counter/increment' })
+    await vi.waitFor(() => {
+      expect(onError).toHaveBeenLastCalledWith(
+        'save',
+        expect.any(StorageQuotaError),
+        'key-counter-id',
+      )
+    })
+    expect(onSaved).not.toHaveBeenCalled()
+
+    store.dispatch({ type: 'counter/reset' })
+    await vi.waitFor(() => {
+      expect(onError).toHaveBeenLastCalledWith(
+        'remove',
+        removeError,
+        'key-counter-id',
+      )
+    })
+    expect(onError).toHaveBeenCalledTimes(3)
+  })
+
+  it.concurrent('should dispatch status actions', async () => {
+    const { mockStorage, persistedReducer } = getReducer({
+      persistence: {
+        statusActions: {
+          loading: 'history/loading',
+          loaded: 'history/loaded',
+          saving: 'history/saving',
+          saved: 'history/saved',
+          error: 'history/error',
+        },
+        onError: () => void 0,
+      },
+    })
+    const store = createStore(
+      combineReducers({
+        counter: persistedReducer.reducer,
+        statuses: (state: UnknownAction[] = [], action: UnknownAction) =>
+          action.type.startsWith('history/') ? [...state, action] : state,
+      }),
+      applyMiddleware(persistedReducer.middleware),
+    )
+    const payload = { storageKey: 'key-counter-id' }
+
+    store.dispatch({ type: 'counter/start' })
+    await vi.waitFor(() => {
+      expect(store.getState().statuses).toEqual([
+        { type: 'history/loading', payload },
+        { type: 'history/loaded', payload },
+      ])
+    })
+
+    store.dispatch({ type: 'counter/increment' })
+    await vi.waitFor(() => {
+      expect(store.getState().statuses.slice(2)).toEqual([
+        { type: 'history/saving', payload },
+        { type: 'history/saved', payload },
+      ])
+    })
+
+    mockStorage.setItem.mockRejectedValue(new Error('failed!'))
+    store.dispatch({ type: 'counter/increment' })
+    await vi.waitFor(() => {
+      expect(store.getState().statuses.slice(4)).toEqual([
+        { type: 'history/saving', payload },
+        {
+          type: 'history/error',
+          payload: { ...payload, kind: 'save', message: 'failed!' },
+        },
+      ])
+    })
+    // status actions are not recorded
+    expect(store.getState().counter[HISTORY_KEY].actions).toHaveLength(2)
+  })
+
   it.concurrent('should handle loading storage errors gracefully', async () => {
     const { store, mockStorage } = getStore()
     const error = new Error('failed!')
@@ -296,6 +901,8 @@ describe.concurrent('persistedUndoableActions', () => {
       tracking: true,
       actions: [],
       snapshot: initialState,
+      checkpoints: [],
+      bookmarks: [],
     })
 
     store.dispatch({ type: 'counter/increment' })
@@ -305,6 +912,8 @@ describe.concurrent('persistedUndoableActions', () => {
       tracking: true,
       actions: [{ action: { type: 'counter/increment' }, undone: false }],
       snapshot: initialState,
+      checkpoints: [],
+      bookmarks: [],
     })
   })
 
@@ -335,6 +944,467 @@ describe.concurrent('persistedUndoableActions', () => {
     },
   )
 
+  it.concurrent('should update loadStatus while loading', async () => {
+    const { store, mockStorage } = getStore()
+    let resolveItem: (value: string) => void = () => undefined
+    mockStorage.getItem = vi.fn().mockReturnValue(
+      new Promise((resolve) => {
+        resolveItem = resolve
+      }),
+    )
+    expect(store.getState().counter.loadStatus).toBe('idle')
+
+    store.dispatch({ type: 'counter/start' })
+    expect(store.getState().counter.loadStatus).toBe('loading')
+
+    resolveItem(
+      JSON.stringify({
+        tracking: true,
+        actions: [{ action: { type: 'counter/increment' }, undone: false }],
+      }),
+    )
+    await vi.waitFor(() => {
+      expect(store.getState().counter.loadStatus).toBe('loaded')
+    })
+    expect(store.getState().counter.present.count).toBe(1)
+
+    // the stored history is gone, but it was loaded
+    store.dispatch({ type: 'counter/reset' })
+    expect(store.getState().counter.loadStatus).toBe('loaded')
+  })
+
+  it.concurrent('should set loadStatus when loading fails', async () => {
+    const { store, mockStorage } = getStore({
+      persistence: { onError: () => void 0 },
+    })
+    mockStorage.getItem = vi.fn().mockRejectedValue(new Error('failed!'))
+
+    store.dispatch({ type: 'counter/start' })
+
+    await vi.waitFor(() => {
+      expect(store.getState().counter.loadStatus).toBe('failed')
+    })
+  })
+
+  it.concurrent(
+    'should accept actions and action creators as dispatchAfterMaybeLoading',
+    async () => {
+      const loaded = { type: 'counter/loaded', payload: 'history' }
+
+      for (const dispatchAfterMaybeLoading of [loaded, () => loaded]) {
+        const { mockStorage, persistedReducer } = getReducer({
+          persistence: { dispatchAfterMaybeLoading },
+        })
+        mockStorage.getItem = vi.fn().mockResolvedValue(
+          JSON.stringify({
+            tracking: true,
+            actions: [{ action: { type: 'counter/increment' }, undone: false }],
+          }),
+        )
+        const dispatched: [UnknownAction, number, string][] = []
+        const store = createStore(
+          combineReducers({ counter: persistedReducer.reducer }),
+          applyMiddleware(
+            persistedReducer.middleware,
+            (storeAPI) => (next) => (action) => {
+              const result = next(action)
+              const { counter } = storeAPI.getState() as {
+                counter: HistoryState<CounterState, UnknownAction>
+              }
+              dispatched.push([
+                action as UnknownAction,
+                counter.present.count,
+                counter.loadStatus,
+              ])
+              return result
+            },
+          ),
+        )
+
+        store.dispatch({ type: 'counter/start' })
+
+        // dispatched as soon as the history is hydrated
+        await vi.waitFor(() => {
+          expect(dispatched.at(-1)).toEqual([loaded, 1, 'loaded'])
+        })
+      }
+    },
+  )
+
+  it.concurrent(
+    'should save and load the snapshot when maxHistory is set',
+    async () => {
+      const { store, mockStorage } = getStore({ maxHistory: 1 })
+
+      store.dispatch({ type: 'counter/start' })
+      await sleep(50)
+
+      store.dispatch({ type: 'counter/increment' })
+      await sleep(50)
+      store.dispatch({ type: 'counter/increment', payload: 2 })
+
+      await vi.waitFor(() => {
+        expect(mockStorage.setItem).toHaveBeenLastCalledWith(
+          'key-counter-id',
+          JSON.stringify({
+            version: 0,
+            actions: [
+              {
+                action: { type: 'counter/increment', payload: 2 },
+                undone: false,
+              },
+            ],
+            tracking: true,
+            snapshot: { id: 'counter-id', count: 1 },
+          }),
+        )
+      })
+
+      const { store: reloadedStore, mockStorage: reloadedStorage } = getStore({
+        maxHistory: 1,
+      })
+      reloadedStorage.getItem = vi
+        .fn()
+        .mockResolvedValue(
+          (mockStorage.setItem.mock.lastCall as [string, string])[1],
+        )
+      reloadedStore.dispatch({ type: 'counter/start' })
+
+      await vi.waitFor(() => {
+        expect(reloadedStore.getState().counter.present.count).toStrictEqual(3)
+        expect(
+          reloadedStore.getState().counter[HISTORY_KEY].snapshot.count,
+        ).toStrictEqual(1)
+      })
+    },
+  )
+
+  it.concurrent('should save and load branches in tree mode', async () => {
+    const { store, mockStorage } = getStore({ historyMode: 'tree' })
+
+    store.dispatch({ type: 'counter/start' })
+    await sleep(50)
+    store.dispatch({ type: 'counter/increment' })
+    await sleep(50)
+    store.dispatch(ActionCreators.undo())
+    await sleep(50)
+    store.dispatch({ type: 'counter/decrement' })
+
+    await vi.waitFor(() => {
+      expect(mockStorage.setItem).toHaveBeenLastCalledWith(
+        'key-counter-id',
+        JSON.stringify({
+          version: 0,
+          actions: [{ action: { type: 'counter/decrement' }, undone: false }],
+          tracking: true,
+          branches: [
+            {
+              id: 0,
+              actions: [
+                { action: { type: 'counter/increment' }, undone: true },
+              ],
+            },
+          ],
+          branch: 1,
+        }),
+      )
+    })
+
+    const { store: reloadedStore, mockStorage: reloadedStorage } = getStore({
+      historyMode: 'tree',
+    })
+    reloadedStorage.getItem = vi
+      .fn()
+      .mockResolvedValue(
+        (mockStorage.setItem.mock.lastCall as [string, string])[1],
+      )
+    reloadedStore.dispatch({ type: 'counter/start' })
+
+    await vi.waitFor(() => {
+      expect(reloadedStore.getState().counter.present.count).toStrictEqual(-1)
+    })
+    reloadedStore.dispatch(ActionCreators.switchBranch(0))
+    reloadedStore.dispatch(ActionCreators.redo())
+    expect(reloadedStore.getState().counter.present.count).toStrictEqual(1)
+  })
+
+  it.concurrent('should save bookmarks', async () => {
+    const { store, mockStorage } = getStore()
+
+    store.dispatch({ type: 'counter/start' })
+    await sleep(50)
+    store.dispatch({ type: 'counter/increment' })
+    await sleep(50)
+    store.dispatch(ActionCreators.bookmark('approved'))
+
+    await vi.waitFor(() => {
+      expect(mockStorage.setItem).toHaveBeenLastCalledWith(
+        'key-counter-id',
+        JSON.stringify({
+          version: 0,
+          actions: [{ action: { type: 'counter/increment' }, undone: false }],
+          tracking: true,
+          bookmarks: [{ name: 'approved', index: 0 }],
+        }),
+      )
+    })
+  })
+
+  it.concurrent('should save the schema version', async () => {
+    const { store, mockStorage } = getStore({ persistence: { version: 3 } })
+
+    store.dispatch({ type: 'counter/start' })
+    await sleep(50)
+    store.dispatch({ type: 'counter/increment' })
+
+    await vi.waitFor(() => {
+      expect(mockStorage.setItem).toHaveBeenLastCalledWith(
+        'key-counter-id',
+        JSON.stringify({
+          version: 3,
+          actions: [{ action: { type: 'counter/increment' }, undone: false }],
+          tracking: true,
+        }),
+      )
+    })
+  })
+
+  it.concurrent('should migrate stored histories before loading', async () => {
+    const renameAdd = vi.fn(
+      (history: ExportedHistory<unknown, UnknownAction>) => ({
+        ...history,
+        actions: history.actions.map((historyAction) =>
+          historyAction.action.type === 'counter/add'
+            ? {
+                ...historyAction,
+                action: {
+                  type: 'counter/increment',
+                  payload: historyAction.action.payload,
+                },
+              }
+            : historyAction,
+        ),
+      }),
+    )
+    const doublePayloads = vi.fn(
+      (history: ExportedHistory<unknown, UnknownAction>) => ({
+        ...history,
+        actions: history.actions.map((historyAction) => ({
+          ...historyAction,
+          action: {
+            ...historyAction.action,
+            payload: (historyAction.action.payload as number) * 2,
+          },
+        })),
+      }),
+    )
+    const future = vi.fn(
+      (history: ExportedHistory<unknown, UnknownAction>) => history,
+    )
+    const { store, mockStorage } = getStore({
+      persistence: {
+        version: 3,
+        migrations: { 4: future, 3: doublePayloads, 2: renameAdd, 1: future },
+      },
+    })
+    mockStorage.getItem = vi.fn().mockResolvedValue(
+      JSON.stringify({
+        version: 1,
+        tracking: true,
+        actions: [
+          { action: { type: 'counter/add', payload: 2 }, undone: false },
+          { action: { type: 'counter/increment', payload: 3 }, undone: false },
+        ],
+      }),
+    )
+
+    store.dispatch({ type: 'counter/start' })
+
+    await vi.waitFor(() => {
+      expect(store.getState().counter.present.count).toEqual(10)
+    })
+    expect(store.getState().counter[HISTORY_KEY].actions).toEqual([
+      { action: { type: 'counter/increment', payload: 4 }, undone: false },
+      { action: { type: 'counter/increment', payload: 6 }, undone: false },
+    ])
+    expect(renameAdd).toHaveBeenCalledOnce()
+    expect(doublePayloads).toHaveBeenCalledOnce()
+    expect(future).not.toHaveBeenCalled()
+  })
+
+  it.concurrent('should treat unversioned histories as version 0', async () => {
+    const migrate = vi.fn(
+      (history: ExportedHistory<unknown, UnknownAction>) => ({
+        ...history,
+        tracking: false,
+      }),
+    )
+    const { store, mockStorage } = getStore({
+      persistence: { version: 1, migrations: { 1: migrate } },
+    })
+    mockStorage.getItem = vi.fn().mockResolvedValue(
+      JSON.stringify({
+        tracking: true,
+        actions: [{ action: { type: 'counter/increment' }, undone: false }],
+      }),
+    )
+
+    store.dispatch({ type: 'counter/start' })
+
+    await vi.waitFor(() => {
+      expect(store.getState().counter.present.count).toEqual(1)
+    })
+    expect(store.getState().counter[HISTORY_KEY].tracking).toBe(false)
+    expect(migrate).toHaveBeenCalledOnce()
+  })
+
+  it.concurrent(
+    'should report histories saved by an unknown version',
+    async () => {
+      const onError = vi.fn()
+      const onLoaded = vi.fn()
+      const { store, mockStorage } = getStore({
+        persistence: { version: 1, onError, onLoaded },
+      })
+      mockStorage.getItem = vi.fn().mockResolvedValue(
+        JSON.stringify({
+          version: 2,
+          tracking: true,
+          actions: [{ action: { type: 'counter/increment' }, undone: false }],
+        }),
+      )
+
+      store.dispatch({ type: 'counter/start' })
+
+      await vi.waitFor(() => {
+        expect(onError).toHaveBeenCalledExactlyOnceWith(
+          'load',
+          expect.any(UnknownVersionError),
+          'key-counter-id',
+        )
+      })
+      expect(onError.mock.lastCall?.[1]).toMatchObject({ version: 2 })
+      expect(onLoaded).not.toHaveBeenCalled()
+      expect(store.getState().counter.loadStatus).toBe('failed')
+      expect(store.getState().counter.present.count).toEqual(0)
+      expect(store.getState().counter[HISTORY_KEY].actions).toEqual([])
+    },
+  )
+
+  it.concurrent('should save and load with a custom serializer', async () => {
+    const { store, mockStorage } = getStore({
+      persistence: { serializer: taggedJsonSerializer },
+    })
+
+    store.dispatch({ type: 'counter/start' })
+    await sleep(50)
+    store.dispatch({ type: 'counter/increment', payload: 2, meta: new Date(0) })
+
+    await vi.waitFor(() => {
+      expect(mockStorage.setItem).toHaveBeenCalledOnce()
+    })
+
+    const { store: reloadedStore, mockStorage: reloadedStorage } = getStore({
+      persistence: { serializer: taggedJsonSerializer },
+    })
+    reloadedStorage.getItem = vi
+      .fn()
+      .mockResolvedValue(
+        (mockStorage.setItem.mock.lastCall as [string, string])[1],
+      )
+    reloadedStore.dispatch({ type: 'counter/start' })
+
+    await vi.waitFor(() => {
+      expect(reloadedStore.getState().counter.present.count).toEqual(2)
+    })
+    expect(
+      reloadedStore.getState().counter[HISTORY_KEY].actions[0]?.action.meta,
+    ).toEqual(new Date(0))
+  })
+
+  it.concurrent('should not save histories failing to serialize', async () => {
+    const serialize = vi.fn((value: unknown) =>
+      taggedJsonSerializer.serialize(value),
+    )
+    const onError = vi.fn()
+    const { store, mockStorage } = getStore({
+      persistence: {
+        serializer: { ...taggedJsonSerializer, serialize },
+        onError,
+      },
+    })
+
+    store.dispatch({ type: 'counter/start' })
+    await sleep(50)
+    store.dispatch({ type: 'counter/increment', meta: () => void 0 })
+
+    await vi.waitFor(() => {
+      expect(serialize.mock.results[0]?.type).toBe('throw')
+      expect(serialize.mock.results[0]?.value).toBeInstanceOf(
+        SerializationError,
+      )
+      expect(onError).toHaveBeenCalledExactlyOnceWith(
+        'save',
+        expect.any(SerializationError),
+        'key-counter-id',
+      )
+    })
+    expect(mockStorage.setItem).not.toHaveBeenCalled()
+  })
+
+  it.concurrent('should not load histories failing to migrate', async () => {
+    const error = new Error('failed!')
+    const onError = vi.fn()
+    const { store, mockStorage } = getStore({
+      persistence: {
+        onError,
+        version: 1,
+        migrations: {
+          1: () => {
+            throw error
+          },
+        },
+      },
+    })
+    mockStorage.getItem = vi.fn().mockResolvedValue(
+      JSON.stringify({
+        tracking: true,
+        actions: [{ action: { type: 'counter/increment' }, undone: false }],
+      }),
+    )
+
+    store.dispatch({ type: 'counter/start' })
+
+    await vi.waitFor(() => {
+      expect(onError).toHaveBeenCalledExactlyOnceWith(
+        'load',
+        error,
+        'key-counter-id',
+      )
+    })
+    expect(store.getState().counter.present.count).toEqual(0)
+  })
+
+  it.concurrent('should not save the history it just loaded', async () => {
+    // every action is tracked, including the hydrate dispatched by loading
+    const { store, mockStorage, flush } = getStore({ trackedActions: [] })
+    mockStorage.getItem = vi.fn().mockResolvedValue(
+      JSON.stringify({
+        tracking: true,
+        actions: [{ action: { type: 'counter/increment' }, undone: false }],
+      }),
+    )
+
+    store.dispatch({ type: 'counter/start' })
+    await vi.waitFor(() => {
+      expect(store.getState().counter.loadStatus).toBe('loaded')
+    })
+    await flush()
+
+    expect(store.getState().counter.present.count).toEqual(1)
+    expect(mockStorage.setItem).not.toHaveBeenCalled()
+  })
+
   it.concurrent('hydrates state with actions', async () => {
     const { store, mockStorage } = getStore()
     const exportedHistory = {
@@ -505,6 +1575,8 @@ describe.concurrent('persistedUndoableActions with root reducer', () => {
         { action: { type: 'counter/increment' }, undone: false },
       ],
       snapshot: { id: 'counter-id', count: 0 },
+      checkpoints: [],
+      bookmarks: [],
     })
 
     store.dispatch(ActionCreators.undo())
@@ -517,6 +1589,8 @@ describe.concurrent('persistedUndoableActions with root reducer', () => {
         { action: { type: 'counter/increment' }, undone: true },
       ],
       snapshot: { id: 'counter-id', count: 0 },
+      checkpoints: [],
+      bookmarks: [],
     })
   })
 })
@@ -591,7 +1665,7 @@ function getStore(
     applyMiddleware(persistedReducer.middleware),
   )
 
-  return { store, mockStorage }
+  return { store, mockStorage, flush: persistedReducer.flush }
 }
 
 function sleep(delay: number) {
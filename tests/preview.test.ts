@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { legacy_createStore as createStore, type UnknownAction } from 'redux'
+import {
+  ActionCreators,
+  previewAt,
+  previewRedo,
+  previewUndo,
+  undoableActions,
+} from '../src'
+
+const counterReducer = (state = 0, action: UnknownAction): number => {
+  switch (action.type) {
+    case 'counter/increment':
+      return state + ((action.payload as number) || 1)
+    case 'counter/log':
+      return state + 1000
+    default:
+      return state
+  }
+}
+
+function getStore(config?: Parameters<typeof undoableActions>[1]) {
+  const store = createStore(undoableActions(counterReducer, config))
+  for (let i = 1; i <= 4; i++) {
+    store.dispatch({ type: 'counter/increment', payload: i })
+  }
+  return store
+}
+
+describe.concurrent('previewAt', () => {
+  it.concurrent('computes the state at a history index', () => {
+    const store = getStore({ checkpointInterval: 2 })
+    const state = store.getState()
+
+    expect(previewAt(counterReducer, state, 1)).toBe(3)
+    expect(previewAt(counterReducer, state, -1)).toBe(0)
+    expect(previewAt(counterReducer, state, 3)).toBe(10)
+    expect(store.getState()).toBe(state)
+  })
+
+  it.concurrent('matches the state after jumping', () => {
+    const store = getStore()
+    const preview = previewAt(counterReducer, store.getState(), 2)
+
+    store.dispatch(ActionCreators.jumpTo(2))
+    expect(store.getState().present).toBe(preview)
+  })
+
+  it.concurrent('returns the present for invalid indexes', () => {
+    const state = getStore().getState()
+    expect(previewAt(counterReducer, state, 10)).toBe(10)
+  })
+})
+
+describe.concurrent('previewUndo and previewRedo', () => {
+  it.concurrent('computes the state after undo and redo', () => {
+    const store = getStore()
+
+    expect(previewUndo(counterReducer, store.getState())).toBe(6)
+    expect(previewUndo(counterReducer, store.getState(), { count: 3 })).toBe(1)
+    expect(previewRedo(counterReducer, store.getState())).toBe(10)
+
+    store.dispatch(ActionCreators.undo({ count: 2 }))
+    expect(previewRedo(counterReducer, store.getState())).toBe(6)
+    expect(previewRedo(counterReducer, store.getState(), { count: 2 })).toBe(10)
+    expect(store.getState().present).toBe(3)
+  })
+
+  it.concurrent('respects the configuration', () => {
+    const config = { undoableActions: ['counter/increment'] }
+    const store = getStore(config)
+    store.dispatch({ type: 'counter/log' })
+
+    expect(
+      previewUndo(counterReducer, store.getState(), undefined, config),
+    ).toBe(1006)
+    expect(previewUndo(counterReducer, store.getState())).toBe(10)
+  })
+})
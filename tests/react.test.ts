@@ -0,0 +1,321 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { act, renderHook } from '@testing-library/react'
+import { createElement, type ReactNode } from 'react'
+import { Provider } from 'react-redux'
+import {
+  combineReducers,
+  legacy_createStore as createStore,
+  type Store,
+  type UnknownAction,
+} from 'redux'
+import { createUndoableInstance, undoableActions } from '../src'
+import {
+  type KeyboardEventLike,
+  type KeyboardEventTarget,
+  useHistoryList,
+  useUndoRedo,
+  useUndoShortcuts,
+} from '../src/react'
+
+interface CounterState {
+  count: number
+}
+
+const counterReducer = (
+  state: CounterState = { count: 0 },
+  action: UnknownAction,
+): CounterState =>
+  action.type === 'counter/increment' ? { count: state.count + 1 } : state
+
+function getStore() {
+  return createStore(
+    combineReducers({ counter: undoableActions(counterReducer) }),
+  )
+}
+
+type RootState = ReturnType<ReturnType<typeof getStore>['getState']>
+
+const selectCounter = (state: RootState) => state.counter
+
+describe('useUndoRedo', () => {
+  it('should undo, redo and reset', () => {
+    const store = getStore()
+    const { result } = renderHook(() => useUndoRedo(selectCounter), {
+      wrapper: getWrapper(store),
+    })
+    expect(result.current.canUndo).toBe(false)
+
+    act(() => {
+      store.dispatch({ type: 'counter/increment' })
+      store.dispatch({ type: 'counter/increment' })
+    })
+    expect(result.current.canUndo).toBe(true)
+    expect(result.current.canRedo).toBe(false)
+
+    act(() => {
+      result.current.undo({ count: 2 })
+    })
+    expect(store.getState().counter.present.count).toBe(0)
+    expect(result.current.canUndo).toBe(false)
+    expect(result.current.canRedo).toBe(true)
+
+    act(() => {
+      result.current.redo()
+    })
+    expect(store.getState().counter.present.count).toBe(1)
+
+    act(() => {
+      result.current.reset()
+    })
+    expect(result.current.canUndo).toBe(false)
+    expect(result.current.canRedo).toBe(false)
+  })
+
+  it('should dispatch custom internal actions', () => {
+    const counter = createUndoableInstance('counter', counterReducer)
+    const store = createStore(combineReducers({ counter: counter.reducer }))
+    const { result } = renderHook(
+      () =>
+        useUndoRedo(
+          (state: ReturnType<typeof store.getState>) => state.counter,
+          {
+            internalActions: counter.internalActions,
+          },
+        ),
+      { wrapper: getWrapper(store) },
+    )
+
+    act(() => {
+      store.dispatch({ type: 'counter/increment' })
+      result.current.undo()
+    })
+
+    expect(store.getState().counter.present.count).toBe(0)
+    expect(result.current.canRedo).toBe(true)
+  })
+})
+
+describe('useHistoryList', () => {
+  it('should list the actions and jump between them', () => {
+    const store = getStore()
+    const { result } = renderHook(() => useHistoryList(selectCounter), {
+      wrapper: getWrapper(store),
+    })
+    expect(result.current.entries).toEqual([])
+    expect(result.current.currentIndex).toBe(-1)
+
+    act(() => {
+      store.dispatch({ type: 'counter/increment' })
+      store.dispatch({ type: 'counter/increment' })
+    })
+    act(() => {
+      result.current.jumpTo(0)
+    })
+
+    expect(result.current.entries).toEqual([
+      { action: { type: 'counter/increment' }, undone: false, index: 0 },
+      { action: { type: 'counter/increment' }, undone: true, index: 1 },
+    ])
+    expect(result.current.currentIndex).toBe(0)
+    expect(store.getState().counter.present.count).toBe(1)
+  })
+
+  it('should point at the last applied undoable action', () => {
+    const undoable = ['counter/increment']
+    const store = createStore(
+      combineReducers({
+        counter: undoableActions(
+          (
+            state: CounterState & { logs: number } = { count: 0, logs: 0 },
+            action: UnknownAction,
+          ) =>
+            action.type === 'counter/log'
+              ? { ...state, logs: state.logs + 1 }
+              : { ...state, ...counterReducer(state, action) },
+          { undoableActions: undoable },
+        ),
+      }),
+    )
+    const { result } = renderHook(
+      () =>
+        useHistoryList(
+          (state: ReturnType<typeof store.getState>) => state.counter,
+          { undoableActions: undoable },
+        ),
+      { wrapper: getWrapper(store) },
+    )
+
+    act(() => {
+      store.dispatch({ type: 'counter/increment' })
+      store.dispatch({ type: 'counter/increment' })
+      result.current.jumpTo(0)
+      store.dispatch({ type: 'counter/log' })
+    })
+    expect(result.current.entries.map(({ undone }) => undone)).toEqual([
+      false,
+      true,
+      false,
+    ])
+    expect(result.current.currentIndex).toBe(0)
+
+    act(() => {
+      result.current.jumpTo(result.current.currentIndex)
+    })
+    expect(store.getState().counter.present).toEqual({ count: 1, logs: 1 })
+  })
+
+  it('should keep the list while the history is unchanged', () => {
+    const store = getStore()
+    const { result, rerender } = renderHook(
+      () => useHistoryList(selectCounter),
+      { wrapper: getWrapper(store) },
+    )
+    const { entries } = result.current
+
+    act(() => {
+      store.dispatch({ type: 'unrelated' })
+    })
+    rerender()
+
+    expect(result.current.entries).toBe(entries)
+  })
+})
+
+describe('useUndoShortcuts', () => {
+  it('should undo and redo with the keyboard', () => {
+    const store = getStore()
+    const target = createFakeTarget()
+    renderHook(
+      () => {
+        useUndoShortcuts({ target })
+      },
+      { wrapper: getWrapper(store) },
+    )
+    act(() => {
+      store.dispatch({ type: 'counter/increment' })
+      store.dispatch({ type: 'counter/increment' })
+    })
+
+    let event = target.press({ key: 'z', ctrlKey: true })
+    expect(event.defaultPrevented).toBe(true)
+    expect(store.getState().counter.present.count).toBe(1)
+
+    target.press({ key: 'z', metaKey: true })
+    expect(store.getState().counter.present.count).toBe(0)
+
+    target.press({ key: 'Z', ctrlKey: true, shiftKey: true })
+    expect(store.getState().counter.present.count).toBe(1)
+
+    event = target.press({ key: 'z' })
+    expect(event.defaultPrevented).toBe(false)
+    target.press({ key: 'y', ctrlKey: true })
+    target.press({ key: 'z', ctrlKey: true, altKey: true })
+    expect(store.getState().counter.present.count).toBe(1)
+  })
+
+  it('should leave text fields alone', () => {
+    const store = getStore()
+    const target = createFakeTarget()
+    renderHook(
+      () => {
+        useUndoShortcuts({ target })
+      },
+      { wrapper: getWrapper(store) },
+    )
+    act(() => {
+      store.dispatch({ type: 'counter/increment' })
+    })
+
+    target.press({ key: 'z', ctrlKey: true, target: { tagName: 'INPUT' } })
+    target.press({
+      key: 'z',
+      ctrlKey: true,
+      target: { tagName: 'DIV', isContentEditable: true },
+    })
+
+    expect(store.getState().counter.present.count).toBe(1)
+  })
+
+  it('should unbind the shortcuts when disabled or unmounted', () => {
+    const store = getStore()
+    const target = createFakeTarget()
+    const { rerender, unmount } = renderHook(
+      ({ enabled }) => {
+        useUndoShortcuts({ target, enabled })
+      },
+      { wrapper: getWrapper(store), initialProps: { enabled: true } },
+    )
+    expect(target.listeners.size).toBe(1)
+
+    rerender({ enabled: false })
+    expect(target.listeners.size).toBe(0)
+
+    rerender({ enabled: true })
+    unmount()
+    expect(target.listeners.size).toBe(0)
+  })
+
+  it('should dispatch custom internal actions', () => {
+    const counter = createUndoableInstance('counter', counterReducer)
+    const store = createStore(combineReducers({ counter: counter.reducer }))
+    const target = createFakeTarget()
+    renderHook(
+      () => {
+        useUndoShortcuts({ target, internalActions: counter.internalActions })
+      },
+      { wrapper: getWrapper(store) },
+    )
+    act(() => {
+      store.dispatch({ type: 'counter/increment' })
+    })
+
+    target.press({ key: 'z', ctrlKey: true })
+
+    expect(store.getState().counter.present.count).toBe(0)
+  })
+})
+
+function getWrapper(store: Store) {
+  return ({ children }: { children: ReactNode }) =>
+    createElement(Provider, { store, children })
+}
+
+function createFakeTarget() {
+  type Listener = (event: KeyboardEventLike) => void
+  const listeners = new Set<Listener>()
+  const target: KeyboardEventTarget = {
+    addEventListener: (_, listener) => {
+      listeners.add(listener)
+    },
+    removeEventListener: (_, listener) => {
+      listeners.delete(listener)
+    },
+  }
+
+  return {
+    ...target,
+    listeners,
+    press(event: Partial<KeyboardEventLike> & { key: string }) {
+      const pressed = {
+        ctrlKey: false,
+        metaKey: false,
+        shiftKey: false,
+        altKey: false,
+        target: null,
+        defaultPrevented: false,
+        preventDefault() {
+          pressed.defaultPrevented = true
+        },
+        ...event,
+      }
+      act(() => {
+        for (const listener of listeners) {
+          listener(pressed)
+        }
+      })
+
+      return pressed
+    },
+  }
+}
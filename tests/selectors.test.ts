@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { legacy_createStore as createStore, type UnknownAction } from 'redux'
+import {
+  ActionCreators,
+  createSelectors,
+  selectors,
+  undoableActions,
+} from '../src'
+
+const counterReducer = (state = 0, action: UnknownAction): number => {
+  switch (action.type) {
+    case 'counter/increment':
+      return state + 1
+    case 'counter/rename':
+      return state + 100
+    default:
+      return state
+  }
+}
+
+function getStore() {
+  const store = createStore(undoableActions(counterReducer))
+  store.dispatch({ type: 'counter/increment' })
+  store.dispatch(ActionCreators.beginGroup())
+  store.dispatch({ type: 'counter/increment' })
+  store.dispatch({ type: 'counter/increment' })
+  store.dispatch(ActionCreators.endGroup())
+  store.dispatch({ type: 'counter/increment' })
+  store.dispatch(ActionCreators.undo())
+  return store
+}
+
+describe.concurrent('selectors', () => {
+  it.concurrent('selects actions and snapshot', () => {
+    const state = getStore().getState()
+    expect(selectors.selectActions(state)).toHaveLength(4)
+    expect(selectors.selectSnapshot(state)).toBe(0)
+  })
+
+  it.concurrent('selects past and future actions', () => {
+    const state = getStore().getState()
+    expect(selectors.selectPast(state)).toStrictEqual([
+      { action: { type: 'counter/increment' }, undone: false },
+      { action: { type: 'counter/increment' }, undone: false, group: 1 },
+      { action: { type: 'counter/increment' }, undone: false, group: 1 },
+    ])
+    expect(selectors.selectFuture(state)).toStrictEqual([
+      { action: { type: 'counter/increment' }, undone: true },
+    ])
+  })
+
+  it.concurrent('counts groups as a single step', () => {
+    const store = getStore()
+    expect(selectors.selectUndoableCount(store.getState())).toBe(2)
+    expect(selectors.selectRedoableCount(store.getState())).toBe(1)
+
+    store.dispatch(ActionCreators.undo({ count: 2 }))
+    expect(selectors.selectUndoableCount(store.getState())).toBe(0)
+    expect(selectors.selectRedoableCount(store.getState())).toBe(3)
+  })
+
+  it.concurrent('selects the next undo and redo actions', () => {
+    const store = getStore()
+    expect(selectors.selectNextUndoAction(store.getState())).toStrictEqual({
+      action: { type: 'counter/increment' },
+      undone: false,
+      group: 1,
+    })
+    expect(selectors.selectNextRedoAction(store.getState())).toStrictEqual({
+      action: { type: 'counter/increment' },
+      undone: true,
+    })
+
+    store.dispatch(ActionCreators.redo())
+    expect(selectors.selectNextRedoAction(store.getState())).toBeUndefined()
+  })
+
+  it.concurrent('returns the same reference until history changes', () => {
+    const store = getStore()
+    const past = selectors.selectPast(store.getState())
+
+    store.dispatch({ type: 'unknown/action' })
+    expect(selectors.selectPast(store.getState())).toBe(past)
+
+    store.dispatch({ type: 'counter/increment' })
+    expect(selectors.selectPast(store.getState())).not.toBe(past)
+  })
+
+  it.concurrent('respects custom undoable actions', () => {
+    const config = { undoableActions: ['counter/increment'] }
+    const store = createStore(undoableActions(counterReducer, config))
+    store.dispatch({ type: 'counter/increment' })
+    store.dispatch({ type: 'counter/rename' })
+    const state = store.getState()
+
+    const customSelectors = createSelectors(config)
+    expect(customSelectors.selectUndoableCount(state)).toBe(1)
+    expect(customSelectors.selectNextUndoAction(state)).toStrictEqual({
+      action: { type: 'counter/increment' },
+      undone: false,
+    })
+    expect(selectors.selectUndoableCount(state)).toBe(2)
+  })
+})
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DeserializationError,
+  jsonSerializer,
+  SerializationError,
+  taggedJsonSerializer,
+} from '../src'
+
+const roundTrip = (value: unknown) =>
+  taggedJsonSerializer.deserialize(taggedJsonSerializer.serialize(value))
+
+describe.concurrent('jsonSerializer', () => {
+  it.concurrent('uses plain JSON', () => {
+    const value = { actions: [{ action: { type: 'a' }, undone: false }] }
+    expect(jsonSerializer.serialize(value)).toBe(JSON.stringify(value))
+    expect(jsonSerializer.deserialize(JSON.stringify(value))).toEqual(value)
+  })
+})
+
+describe.concurrent('taggedJsonSerializer', () => {
+  it.concurrent('keeps plain JSON values as they are', () => {
+    const value = { a: 1, b: ['x', true, null], c: { d: 'e' } }
+    expect(taggedJsonSerializer.serialize(value)).toBe(JSON.stringify(value))
+    expect(roundTrip(value)).toEqual(value)
+  })
+
+  it.concurrent('round-trips dates', () => {
+    const date = new Date('2024-01-02T03:04:05.678Z')
+    const result = roundTrip({ date, invalid: new Date(NaN) }) as {
+      date: Date
+      invalid: Date
+    }
+
+    expect(result.date).toBeInstanceOf(Date)
+    expect(result.date.getTime()).toBe(date.getTime())
+    expect(Number.isNaN(result.invalid.getTime())).toBe(true)
+  })
+
+  it.concurrent('round-trips maps and sets, including nested ones', () => {
+    const value = {
+      map: new Map<unknown, unknown>([
+        ['a', new Set([1, 2])],
+        [{ id: 1 }, new Date(0)],
+      ]),
+      set: new Set(['x', new Map([[1n, 'one']])]),
+    }
+    expect(roundTrip(value)).toEqual(value)
+  })
+
+  it.concurrent('round-trips bigints and special numbers', () => {
+    const result = roundTrip([
+      12345678901234567890n,
+      NaN,
+      Infinity,
+      -Infinity,
+      -0,
+      undefined,
+    ]) as unknown[]
+
+    expect(result[0]).toBe(12345678901234567890n)
+    expect(result[1]).toBeNaN()
+    expect(result[2]).toBe(Infinity)
+    expect(result[3]).toBe(-Infinity)
+    expect(Object.is(result[4], -0)).toBe(true)
+    expect(result).toHaveLength(6)
+    expect(result[5]).toBeUndefined()
+  })
+
+  it.concurrent('round-trips undefined properties', () => {
+    const result = roundTrip({ a: undefined }) as object
+    expect('a' in result).toBe(true)
+  })
+
+  it.concurrent('round-trips typed arrays', () => {
+    const value = {
+      bytes: new Uint8Array([1, 2, 255]),
+      floats: new Float32Array([0.5, -1.5]),
+      clamped: new Uint8ClampedArray([0, 255]),
+      bigints: new BigInt64Array([-1n, 2n ** 62n]),
+    }
+    const result = roundTrip(value) as typeof value
+
+    expect(result.bytes).toBeInstanceOf(Uint8Array)
+    expect(result.clamped).toBeInstanceOf(Uint8ClampedArray)
+    expect(result).toEqual(value)
+  })
+
+  it.concurrent('escapes objects that look like tagged values', () => {
+    const value = { $t: 'Date', v: 0, nested: { $t: 'unknown' } }
+    expect(roundTrip(value)).toEqual(value)
+  })
+
+  it.concurrent('throws for functions and symbols', () => {
+    expect(() =>
+      taggedJsonSerializer.serialize({
+        actions: [{ action: { payload: { onClick: () => void 0 } } }],
+      }),
+    ).toThrow(
+      new SerializationError(
+        "can't serialize a function",
+        'actions[0].action.payload.onClick',
+      ),
+    )
+    expect(() => taggedJsonSerializer.serialize(Symbol('a'))).toThrow(
+      SerializationError,
+    )
+  })
+
+  it.concurrent('throws for class instances', () => {
+    class Point {
+      x = 1
+    }
+
+    const serialize = () =>
+      taggedJsonSerializer.serialize({ point: new Point() })
+    expect(serialize).toThrow(SerializationError)
+    expect(serialize).toThrow("can't serialize an instance of Point at point")
+    expect(() => taggedJsonSerializer.serialize(/a/)).toThrow(
+      SerializationError,
+    )
+  })
+
+  it.concurrent('throws for circular references', () => {
+    const value: Record<string, unknown> = { a: [] }
+    ;(value.a as unknown[]).push(value)
+
+    expect(() => taggedJsonSerializer.serialize(value)).toThrow(
+      "can't serialize a circular reference at a[0]",
+    )
+  })
+
+  it.concurrent('allows repeated references that are not circular', () => {
+    const shared = { id: 1 }
+    expect(roundTrip([shared, shared])).toEqual([shared, shared])
+  })
+
+  it.concurrent('throws typed errors for invalid input', () => {
+    expect(() => taggedJsonSerializer.deserialize('{')).toThrow(
+      DeserializationError,
+    )
+    expect(() => taggedJsonSerializer.deserialize('{"$t":"Nope"}')).toThrow(
+      new DeserializationError('unknown tag "Nope"'),
+    )
+    expect(() =>
+      taggedJsonSerializer.deserialize('{"$t":"constructor","v":[1]}'),
+    ).toThrow(new DeserializationError('unknown tag "constructor"'))
+  })
+
+  it.concurrent('throws typed errors for malformed tagged values', () => {
+    for (const raw of [
+      '{"$t":"Map","v":1}',
+      '{"$t":"Map","v":[[1]]}',
+      '{"$t":"Set","v":{}}',
+      '{"$t":"Object","v":null}',
+      '{"$t":"BigInt","v":"1.5"}',
+      '{"$t":"Number","v":1}',
+      '{"$t":"Date","v":"today"}',
+      '{"$t":"Uint8Array","v":["a"]}',
+      '{"$t":"BigInt64Array","v":[1]}',
+    ]) {
+      expect(() => taggedJsonSerializer.deserialize(raw)).toThrow(
+        DeserializationError,
+      )
+    }
+  })
+})
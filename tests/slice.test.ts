@@ -0,0 +1,211 @@
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import {
+  applyMiddleware,
+  combineReducers,
+  legacy_createStore as createStore,
+  type Reducer,
+  type UnknownAction,
+} from 'redux'
+import {
+  ActionCreators,
+  createActionCreators,
+  createMemoryStorage,
+  createUndoableSlice,
+  getNamespacedActionTypes,
+  type HistoryState,
+  undoableActions,
+} from '../src'
+
+interface CounterState {
+  value: number
+}
+
+describe.concurrent('createUndoableSlice', () => {
+  it.concurrent('should undo and redo with the slice actions', () => {
+    const counter = createUndoableSlice(createCounterSlice())
+    const store = createStore(
+      combineReducers({ [counter.reducerPath]: counter.reducer }),
+    )
+
+    store.dispatch(counter.actions.increment())
+    store.dispatch(counter.actions.incrementByAmount(2))
+    expect(store.getState().counter.present.value).toBe(3)
+
+    store.dispatch(counter.actions.undo())
+    expect(store.getState().counter.present.value).toBe(1)
+    store.dispatch(counter.actions.redo())
+    expect(store.getState().counter.present.value).toBe(3)
+    store.dispatch(counter.actions.jumpTo(-1))
+    expect(store.getState().counter.present.value).toBe(0)
+    store.dispatch(counter.actions.reset())
+    expect(store.getState().counter.canRedo).toBe(false)
+  })
+
+  it.concurrent('should namespace the internal actions', () => {
+    const counter = createUndoableSlice(createCounterSlice())
+
+    expect(counter.internalActions.undo).toBe('counter/undo')
+    expect(counter.internalActions.hydrate).toBe('counter/hydrate')
+    expect(counter.actions.undo()).toEqual({
+      type: 'counter/undo',
+      payload: undefined,
+    })
+    expect(counter.actions.tracking(false)).toEqual({
+      type: 'counter/tracking',
+      payload: false,
+    })
+  })
+
+  it.concurrent('should not react to other slices history actions', () => {
+    const counter = createUndoableSlice(createCounterSlice())
+    const other = createUndoableSlice(createCounterSlice('other'))
+    const store = createStore(
+      combineReducers({ counter: counter.reducer, other: other.reducer }),
+    )
+
+    store.dispatch(counter.actions.increment())
+    store.dispatch(other.actions.increment())
+    store.dispatch(counter.actions.undo())
+    store.dispatch(ActionCreators.undo())
+
+    expect(store.getState().counter.present.value).toBe(0)
+    expect(store.getState().other.present.value).toBe(1)
+  })
+
+  it.concurrent('should wrap the slice selectors', () => {
+    // like createSlice results, the slice is a constant of its own, which keeps its name literal
+    const counterSlice = createCounterSlice()
+    const counter = createUndoableSlice(counterSlice)
+    const store = createStore(combineReducers({ counter: counter.reducer }))
+    store.dispatch(counter.actions.incrementByAmount(5))
+
+    expect(counter.selectors.selectValue(store.getState())).toBe(5)
+    expect(counter.selectors.selectIsAbove(store.getState(), 4)).toBe(true)
+    expect(counter.getSelectors().selectValue(store.getState().counter)).toBe(5)
+    expect(
+      counter
+        .getSelectors(
+          (state: {
+            nested: { counter: HistoryState<CounterState, UnknownAction> }
+          }) => state.nested.counter,
+        )
+        .selectValue({ nested: { counter: store.getState().counter } }),
+    ).toBe(5)
+
+    expectTypeOf(counter.selectors.selectIsAbove).toEqualTypeOf<
+      (
+        rootState: Record<'counter', HistoryState<CounterState, UnknownAction>>,
+        limit: number,
+      ) => boolean
+    >()
+  })
+
+  it.concurrent('should work with slices without selectors', () => {
+    const { name, reducer, actions } = createCounterSlice()
+    const counter = createUndoableSlice({ name, reducer, actions })
+
+    expect(counter.selectors).toEqual({})
+    expect(counter.reducerPath).toBe('counter')
+  })
+
+  it.concurrent(
+    'should refuse slices with actions named like history actions',
+    () => {
+      const slice = createCounterSlice()
+
+      expect(() =>
+        createUndoableSlice({
+          ...slice,
+          actions: { ...slice.actions, undo: () => ({ type: 'counter/undo' }) },
+        }),
+      ).toThrow('The counter slice already has a "undo" action')
+    },
+  )
+
+  it.concurrent('should return a middleware with persistence', async () => {
+    const storage = createMemoryStorage()
+    const counter = createUndoableSlice(createCounterSlice(), {
+      persistence: {
+        reducerKey: 'counter',
+        getStorageKey: () => 'counter',
+        storage,
+      },
+    })
+    const store = createStore(
+      combineReducers({ counter: counter.reducer }),
+      applyMiddleware(counter.middleware),
+    )
+
+    store.dispatch(counter.actions.increment())
+    await counter.flush()
+
+    expect(await storage.getItem('counter')).toContain('counter/increment')
+  })
+})
+
+describe.concurrent('createActionCreators', () => {
+  it.concurrent('should create actions of the given types', () => {
+    const internalActions = getNamespacedActionTypes('canvas')
+    const creators = createActionCreators(internalActions)
+    const reducer = undoableActions(
+      (state: CounterState = { value: 0 }, action: UnknownAction) =>
+        action.type === 'canvas/add' ? { value: state.value + 1 } : state,
+      { internalActions },
+    )
+
+    let state = reducer(undefined, { type: '@@init' })
+    state = reducer(state, { type: 'canvas/add' })
+    state = reducer(state, creators.undo())
+
+    expect(state.present.value).toBe(0)
+    expect(creators.bookmark('saved')).toEqual({
+      type: 'canvas/bookmark',
+      payload: 'saved',
+    })
+    expect(creators.beginGroup()).toEqual({ type: 'canvas/beginGroup' })
+  })
+})
+
+// the shape of a slice created by Redux Toolkit's createSlice
+function createCounterSlice<Name extends string = 'counter'>(nameArg?: Name) {
+  const name = nameArg ?? ('counter' as Name)
+  const reducer: Reducer<CounterState> = (state = { value: 0 }, action) => {
+    switch (action.type) {
+      case `${name}/increment`:
+        return { value: state.value + 1 }
+      case `${name}/incrementByAmount`:
+        return { value: state.value + (action.payload as number) }
+      default:
+        return state
+    }
+  }
+  const sliceSelectors = {
+    selectValue: (state: CounterState) => state.value,
+    selectIsAbove: (state: CounterState, limit: number) => state.value > limit,
+  }
+  const getSelectors = <RootState>(
+    selectState: (rootState: RootState) => CounterState,
+  ) => ({
+    selectValue: (rootState: RootState) =>
+      sliceSelectors.selectValue(selectState(rootState)),
+    selectIsAbove: (rootState: RootState, limit: number) =>
+      sliceSelectors.selectIsAbove(selectState(rootState), limit),
+  })
+
+  return {
+    name,
+    reducerPath: name,
+    reducer,
+    actions: {
+      increment: () => ({ type: `${name}/increment`, payload: undefined }),
+      incrementByAmount: (payload: number) => ({
+        type: `${name}/incrementByAmount`,
+        payload,
+      }),
+    },
+    selectors: getSelectors(
+      (rootState: Record<Name, CounterState>) => rootState[name],
+    ),
+    getSelectors,
+  }
+}
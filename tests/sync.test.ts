@@ -0,0 +1,491 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  applyMiddleware,
+  combineReducers,
+  legacy_createStore as createStore,
+  type UnknownAction,
+} from 'redux'
+import {
+  ActionCreators,
+  type BroadcastChannelLike,
+  createBroadcastChannelTransport,
+  createMemoryStorage,
+  createStorageEventTransport,
+  type Persistence,
+  persistedUndoableActions,
+  type StorageEventTarget,
+  SyncConflictError,
+  type SyncTransport,
+} from '../src'
+import { HISTORY_KEY } from '../src/actions'
+import { createChangeId, mergeHistories } from '../src/sync'
+
+interface CounterState {
+  count: number
+}
+
+describe.concurrent('createBroadcastChannelTransport', () => {
+  it.concurrent('posts and receives messages through the channel', () => {
+    const channel = createFakeChannel()
+    const createChannel = vi.fn(() => channel)
+    const transport = createBroadcastChannelTransport('history', createChannel)
+    const listener = vi.fn()
+
+    const unsubscribe = transport.subscribe(listener)
+    transport.post('sent')
+    channel.receive('received')
+    channel.receive({ not: 'a string' })
+    unsubscribe()
+    channel.receive('ignored')
+
+    expect(createChannel).toHaveBeenCalledExactlyOnceWith('history')
+    expect(channel.posted).toEqual(['sent'])
+    expect(listener).toHaveBeenCalledExactlyOnceWith('received')
+  })
+
+  it.concurrent('throws when BroadcastChannel is not available', () => {
+    const transport = createBroadcastChannelTransport('history', () => {
+      throw new Error('BroadcastChannel is not available')
+    })
+
+    expect(() => {
+      transport.post('message')
+    }).toThrow('BroadcastChannel is not available')
+  })
+})
+
+describe.concurrent('createStorageEventTransport', () => {
+  it.concurrent('posts and receives messages through storage events', () => {
+    const items = new Map<string, string>()
+    const storage = {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: vi.fn((key: string, value: string) => items.set(key, value)),
+      removeItem: vi.fn((key: string) => items.delete(key)),
+    }
+    const target = createFakeTarget()
+    const transport = createStorageEventTransport('sync', { storage, target })
+    const listener = vi.fn()
+
+    const unsubscribe = transport.subscribe(listener)
+    transport.post('sent')
+    target.dispatch({ key: 'sync', newValue: 'received' })
+    target.dispatch({ key: 'sync', newValue: null })
+    target.dispatch({ key: 'other', newValue: 'ignored' })
+    unsubscribe()
+    target.dispatch({ key: 'sync', newValue: 'ignored' })
+
+    expect(storage.setItem).toHaveBeenCalledExactlyOnceWith('sync', 'sent')
+    expect(storage.removeItem).toHaveBeenCalledExactlyOnceWith('sync')
+    expect(items.size).toBe(0)
+    expect(listener).toHaveBeenCalledExactlyOnceWith('received')
+  })
+})
+
+describe.concurrent('persistedUndoableActions with sync', () => {
+  it.concurrent('should apply changes made in other tabs', async () => {
+    const hub = createHub()
+    const storage = createMemoryStorage()
+    const a = getTab(hub, storage)
+    const b = getTab(hub, storage)
+    await a.start()
+    await b.start()
+
+    a.store.dispatch({ type: 'counter/increment' })
+    a.store.dispatch({ type: 'counter/increment', payload: 2 })
+    hub.deliver()
+    expect(b.getCounter().present.count).toBe(3)
+    expect(b.getCounter()[HISTORY_KEY].actions).toEqual(
+      a.getCounter()[HISTORY_KEY].actions,
+    )
+
+    a.store.dispatch(ActionCreators.undo())
+    hub.deliver()
+    expect(b.getCounter().present.count).toBe(1)
+    expect(b.getCounter().canRedo).toBe(true)
+
+    // the tab making the change saves it
+    await a.flush()
+    await b.flush()
+    expect(a.storage.setItem).toHaveBeenCalled()
+    expect(b.storage.setItem).not.toHaveBeenCalled()
+
+    // and keeps going from there
+    b.store.dispatch({ type: 'counter/increment', payload: 10 })
+    hub.deliver()
+    expect(a.getCounter().present.count).toBe(11)
+  })
+
+  it.concurrent('should apply resets made in other tabs', async () => {
+    const hub = createHub()
+    const storage = createMemoryStorage()
+    const a = getTab(hub, storage)
+    const b = getTab(hub, storage)
+    await a.start()
+    await b.start()
+    a.store.dispatch({ type: 'counter/increment' })
+    hub.deliver()
+
+    a.store.dispatch({ type: 'counter/reset' })
+    hub.deliver()
+
+    expect(b.getCounter().present.count).toBe(0)
+    expect(b.getCounter()[HISTORY_KEY].actions).toEqual([])
+    await vi.waitFor(() => {
+      expect(a.storage.removeItem).toHaveBeenCalledOnce()
+    })
+    expect(b.storage.removeItem).not.toHaveBeenCalled()
+  })
+
+  it.concurrent('should ignore changes to other storage keys', async () => {
+    const hub = createHub()
+    const storage = createMemoryStorage()
+    const a = getTab(hub, storage)
+    const b = getTab(hub, storage, { getStorageKey: () => 'other' })
+    await a.start()
+    await b.start()
+
+    a.store.dispatch({ type: 'counter/increment' })
+    hub.deliver()
+
+    expect(b.getCounter().present.count).toBe(0)
+  })
+
+  it.concurrent(
+    'should stop listening to other tabs once disposed',
+    async () => {
+      const hub = createHub()
+      const storage = createMemoryStorage()
+      const a = getTab(hub, storage)
+      const b = getTab(hub, storage)
+      await a.start()
+      await b.start()
+
+      b.dispose()
+      a.store.dispatch({ type: 'counter/increment' })
+      hub.deliver()
+
+      expect(b.getCounter().present.count).toBe(0)
+    },
+  )
+
+  it.concurrent('should ignore unknown messages', async () => {
+    const hub = createHub()
+    const onError = vi.fn()
+    const a = getTab(hub, createMemoryStorage(), { onError })
+    await a.start()
+
+    hub.transport().post('hello')
+    hub.transport().post(JSON.stringify({ storageKey: 'counter' }))
+    hub.deliver()
+
+    expect(onError).not.toHaveBeenCalled()
+    expect(a.getCounter().present.count).toBe(0)
+  })
+
+  it.concurrent(
+    'should keep the latest of concurrent changes by default',
+    async () => {
+      const hub = createHub()
+      const storage = createMemoryStorage()
+      const a = getTab(hub, storage)
+      const b = getTab(hub, storage)
+      await a.start()
+      await b.start()
+      a.store.dispatch({ type: 'counter/increment' })
+      hub.deliver()
+
+      a.store.dispatch({ type: 'counter/increment', payload: 2 })
+      b.store.dispatch({ type: 'counter/increment', payload: 3 })
+      hub.deliver()
+
+      expect(a.getCounter()).toEqual(b.getCounter())
+      expect([3, 4]).toContain(a.getCounter().present.count)
+    },
+  )
+
+  it.concurrent('should report refused concurrent changes', async () => {
+    const hub = createHub()
+    const storage = createMemoryStorage()
+    const onErrorA = vi.fn()
+    const onErrorB = vi.fn()
+    const a = getTab(hub, storage, { onError: onErrorA }, 'reject')
+    const b = getTab(hub, storage, { onError: onErrorB }, 'reject')
+    await a.start()
+    await b.start()
+
+    a.store.dispatch({ type: 'counter/increment', payload: 2 })
+    b.store.dispatch({ type: 'counter/increment', payload: 3 })
+    hub.deliver()
+
+    expect(a.getCounter().present.count).toBe(2)
+    expect(b.getCounter().present.count).toBe(3)
+    for (const onError of [onErrorA, onErrorB]) {
+      expect(onError).toHaveBeenCalledExactlyOnceWith(
+        'sync',
+        expect.any(SyncConflictError),
+        'counter',
+      )
+    }
+  })
+
+  it.concurrent('should merge concurrent changes', async () => {
+    const hub = createHub()
+    const storage = createMemoryStorage()
+    const a = getTab(hub, storage, {}, 'merge')
+    const b = getTab(hub, storage, {}, 'merge')
+    await a.start()
+    await b.start()
+    a.store.dispatch({ type: 'counter/increment' })
+    hub.deliver()
+
+    a.store.dispatch({ type: 'counter/increment', payload: 2 })
+    b.store.dispatch({ type: 'counter/increment', payload: 3 })
+    hub.deliver()
+
+    expect(a.getCounter().present.count).toBe(6)
+    expect(a.getCounter()).toEqual(b.getCounter())
+    expect(a.getCounter()[HISTORY_KEY].actions).toHaveLength(3)
+
+    // both tabs agree again
+    b.store.dispatch(ActionCreators.undo())
+    hub.deliver()
+    expect(a.getCounter().present.count).toBe(b.getCounter().present.count)
+    expect(a.getCounter()[HISTORY_KEY].actions).toEqual(
+      b.getCounter()[HISTORY_KEY].actions,
+    )
+
+    await a.flush()
+    await b.flush()
+    const stored = JSON.parse((await storage.getItem('counter')) ?? '') as {
+      actions: unknown[]
+    }
+    expect(stored.actions).toHaveLength(3)
+  })
+
+  it.concurrent(
+    'should merge an undo with an action added in another tab',
+    async () => {
+      const hub = createHub()
+      const storage = createMemoryStorage()
+      const a = getTab(hub, storage, {}, 'merge')
+      const b = getTab(hub, storage, {}, 'merge')
+      await a.start()
+      await b.start()
+      a.store.dispatch({ type: 'counter/increment', payload: 1 })
+      a.store.dispatch({ type: 'counter/increment', payload: 2 })
+      hub.deliver()
+
+      a.store.dispatch(ActionCreators.undo())
+      b.store.dispatch({ type: 'counter/increment', payload: 4 })
+      hub.deliver()
+
+      // the later change decides whether 2 stays undone, but it's never in history twice
+      expect(a.getCounter()).toEqual(b.getCounter())
+      const { actions } = a.getCounter()[HISTORY_KEY]
+      const payloads = actions.map(
+        (historyAction) => historyAction.action.payload,
+      )
+      expect([
+        [1, 2, 4],
+        [1, 4],
+      ]).toContainEqual(payloads)
+      const { count } = a.getCounter().present
+
+      a.store.dispatch(ActionCreators.redo())
+      expect(a.getCounter().present.count).toBe(count)
+    },
+  )
+})
+
+describe.concurrent('createChangeId', () => {
+  it.concurrent('should create ids without crypto.randomUUID', () => {
+    // synchronous, so no other test runs while crypto is missing
+    vi.stubGlobal('crypto', {})
+    const ids = new Set(Array.from({ length: 100 }, createChangeId))
+    vi.unstubAllGlobals()
+
+    expect(ids.size).toBe(100)
+  })
+})
+
+describe.concurrent('mergeHistories', () => {
+  const a = { action: { type: 'counter/increment', payload: 1 }, undone: false }
+  const b = { action: { type: 'counter/increment', payload: 2 }, undone: false }
+  const c = { action: { type: 'counter/increment', payload: 4 }, undone: false }
+  const undone = { ...b, undone: true }
+  const history = (actions: (typeof a)[]) => ({
+    actions,
+    tracking: true,
+    snapshot: { count: 0 },
+  })
+
+  it.concurrent('should keep the flags of the later change', () => {
+    expect(
+      mergeHistories(history([a, undone]), history([a, b, c]))?.actions,
+    ).toEqual([a, b, c])
+  })
+
+  it.concurrent(
+    'should drop actions undone before an action of the other tab',
+    () => {
+      expect(
+        mergeHistories(history([a, b, c]), history([a, undone]))?.actions,
+      ).toEqual([a, c])
+      expect(
+        mergeHistories(history([a, undone]), history([a, undone]))?.actions,
+      ).toEqual([a, undone])
+    },
+  )
+
+  it.concurrent('should not merge when bookmarks would move', () => {
+    expect(
+      mergeHistories(
+        { ...history([a, b, c]), bookmarks: [{ name: 'x', index: 0 }] },
+        { ...history([a, undone]), bookmarks: [{ name: 'x', index: 0 }] },
+      ),
+    ).toBeUndefined()
+  })
+})
+
+function getTab(
+  hub: ReturnType<typeof createHub>,
+  sharedStorage: ReturnType<typeof createMemoryStorage>,
+  persistence?: Partial<Persistence>,
+  conflictStrategy?: NonNullable<Persistence['sync']>['conflictStrategy'],
+) {
+  const counterReducer = (
+    state: CounterState = { count: 0 },
+    action: UnknownAction,
+  ): CounterState =>
+    action.type === 'counter/increment'
+      ? { count: state.count + ((action.payload as number | undefined) ?? 1) }
+      : state
+
+  // each tab has its own view of the shared storage, to see which one writes
+  const storage = {
+    getItem: vi.fn((key: string) => sharedStorage.getItem(key)),
+    setItem: vi.fn((key: string, value: string) =>
+      sharedStorage.setItem(key, value),
+    ),
+    removeItem: vi.fn((key: string) => sharedStorage.removeItem(key)),
+  }
+
+  const { reducer, middleware, flush, dispose } = persistedUndoableActions(
+    counterReducer,
+    {
+      trackedActions: ['counter/increment'],
+      trackAfterAction: 'counter/start',
+      internalActions: { reset: 'counter/reset' },
+      persistence: {
+        reducerKey: 'counter',
+        getStorageKey: () => 'counter',
+        storage,
+        sync: { transport: hub.transport(), conflictStrategy },
+        ...persistence,
+      },
+    },
+  )
+
+  const store = createStore(
+    combineReducers({ counter: reducer }),
+    applyMiddleware(middleware),
+  )
+  const getCounter = () => store.getState().counter
+
+  return {
+    store,
+    storage,
+    flush,
+    dispose,
+    getCounter,
+    start: async () => {
+      store.dispatch({ type: 'counter/start' })
+      await vi.waitFor(() => {
+        expect(getCounter().loadStatus).toBe('loaded')
+      })
+    },
+  }
+}
+
+// delivers messages between tabs when asked to, so changes can cross
+function createHub() {
+  const listeners = new Set<(message: string) => void>()
+  const queue: [(message: string) => void, string][] = []
+
+  return {
+    transport(): SyncTransport {
+      const own = new Set<(message: string) => void>()
+
+      return {
+        post(message) {
+          for (const listener of listeners) {
+            if (!own.has(listener)) {
+              queue.push([listener, message])
+            }
+          }
+        },
+        subscribe(listener) {
+          own.add(listener)
+          listeners.add(listener)
+          return () => {
+            own.delete(listener)
+            listeners.delete(listener)
+          }
+        },
+      }
+    },
+    deliver() {
+      for (const [listener, message] of queue.splice(0)) {
+        listener(message)
+      }
+    },
+  }
+}
+
+function createFakeChannel() {
+  const listeners = new Set<(event: { data: unknown }) => void>()
+  const posted: unknown[] = []
+  const channel: BroadcastChannelLike = {
+    postMessage: (message) => {
+      posted.push(message)
+    },
+    addEventListener: (_, listener) => {
+      listeners.add(listener)
+    },
+    removeEventListener: (_, listener) => {
+      listeners.delete(listener)
+    },
+  }
+
+  return {
+    ...channel,
+    posted,
+    receive(data: unknown) {
+      for (const listener of listeners) {
+        listener({ data })
+      }
+    },
+  }
+}
+
+function createFakeTarget() {
+  type Listener = Parameters<StorageEventTarget['addEventListener']>[1]
+  const listeners = new Set<Listener>()
+  const target: StorageEventTarget = {
+    addEventListener: (_, listener) => {
+      listeners.add(listener)
+    },
+    removeEventListener: (_, listener) => {
+      listeners.delete(listener)
+    },
+  }
+
+  return {
+    ...target,
+    dispatch(event: Parameters<Listener>[0]) {
+      for (const listener of listeners) {
+        listener(event)
+      }
+    },
+  }
+}
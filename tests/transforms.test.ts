@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createMemoryStorage,
+  type IncrementalStoragePersistor,
+  type StoragePersistor,
+  withCompression,
+  withEncryption,
+} from '../src'
+
+function getStorage() {
+  const items = new Map<string, string>()
+  const storage: StoragePersistor = {
+    getItem: (key) => Promise.resolve(items.get(key) ?? null),
+    setItem: (key, value) => {
+      items.set(key, value)
+      return Promise.resolve()
+    },
+    removeItem: (key) => {
+      items.delete(key)
+      return Promise.resolve()
+    },
+  }
+
+  return { items, storage }
+}
+
+const history = JSON.stringify({
+  version: 0,
+  actions: Array.from({ length: 100 }, () => ({
+    action: { type: 'counter/increment', payload: 'ção 🎉' },
+    undone: false,
+  })),
+  tracking: true,
+})
+
+const getKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+    'encrypt',
+    'decrypt',
+  ])
+
+describe.concurrent('withCompression', () => {
+  it.concurrent('compresses stored values', async () => {
+    const { items, storage } = getStorage()
+    const compressed = withCompression(storage)
+
+    await compressed.setItem('key', history)
+
+    const stored = items.get('key')
+    expect(stored).toMatch(/^gz:[A-Za-z0-9+/=]+$/)
+    expect(stored?.length).toBeLessThan(history.length / 10)
+    expect(await compressed.getItem('key')).toBe(history)
+  })
+
+  it.concurrent('reads uncompressed and missing values', async () => {
+    const { items, storage } = getStorage()
+    const compressed = withCompression(storage)
+    items.set('key', history)
+
+    expect(await compressed.getItem('key')).toBe(history)
+    expect(await compressed.getItem('missing')).toBeNull()
+  })
+
+  it.concurrent('removes values', async () => {
+    const { items, storage } = getStorage()
+    const compressed = withCompression(storage)
+
+    await compressed.setItem('key', history)
+    await compressed.removeItem('key')
+
+    expect(items.has('key')).toBe(false)
+  })
+})
+
+describe.concurrent('withEncryption', () => {
+  it.concurrent('encrypts stored values', async () => {
+    const { items, storage } = getStorage()
+    const encrypted = withEncryption(storage, await getKey())
+
+    await encrypted.setItem('key', history)
+    await encrypted.setItem('other', history)
+
+    expect(items.get('key')).toMatch(/^aes:/)
+    expect(items.get('key')).not.toContain('counter/increment')
+    // random IVs
+    expect(items.get('key')).not.toBe(items.get('other'))
+    expect(await encrypted.getItem('key')).toBe(history)
+    expect(await encrypted.getItem('missing')).toBeNull()
+  })
+
+  it.concurrent('accepts raw keys', async () => {
+    const { storage } = getStorage()
+    const key = crypto.getRandomValues(new Uint8Array(32))
+
+    await withEncryption(storage, key).setItem('key', history)
+
+    expect(await withEncryption(storage, key).getItem('key')).toBe(history)
+  })
+
+  it.concurrent('reports invalid raw keys when used', async () => {
+    const { storage } = getStorage()
+    const encrypted = withEncryption(storage, new Uint8Array(5))
+    await new Promise((resolve) => setTimeout(resolve, 10))
+
+    await expect(encrypted.setItem('key', history)).rejects.toThrow()
+    await expect(encrypted.getItem('key')).resolves.toBeNull()
+  })
+
+  it.concurrent('fails to read with another key', async () => {
+    const { storage } = getStorage()
+
+    await withEncryption(storage, await getKey()).setItem('key', history)
+
+    await expect(
+      withEncryption(storage, await getKey()).getItem('key'),
+    ).rejects.toThrow()
+  })
+
+  it.concurrent('fails to read values moved to another key', async () => {
+    const { items, storage } = getStorage()
+    const encrypted = withEncryption(storage, await getKey())
+
+    await encrypted.setItem('key', history)
+    items.set('other', items.get('key') ?? '')
+
+    await expect(encrypted.getItem('other')).rejects.toThrow()
+  })
+
+  it.concurrent('fails to read unencrypted values', async () => {
+    const { items, storage } = getStorage()
+    items.set('key', history)
+
+    await expect(
+      withEncryption(storage, await getKey()).getItem('key'),
+    ).rejects.toThrow('stored value is not encrypted')
+  })
+
+  it.concurrent('composes with compression', async () => {
+    const { items, storage } = getStorage()
+    const composed = withCompression(withEncryption(storage, await getKey()))
+
+    await composed.setItem('key', history)
+
+    expect(items.get('key')?.length).toBeLessThan(history.length / 5)
+    expect(await composed.getItem('key')).toBe(history)
+  })
+})
+
+describe.concurrent('with an incremental storage', () => {
+  it.concurrent('transforms appended entries', async () => {
+    const storage = createMemoryStorage()
+    const transformed = withCompression(
+      withEncryption(storage, await getKey()),
+    ) as IncrementalStoragePersistor
+
+    await transformed.append('key', [history, 'entry'])
+    await transformed.append('key', ['other'])
+
+    const stored = await storage.getEntries('key')
+    expect(stored).toHaveLength(3)
+    expect(stored[0]).toMatch(/^aes:/)
+    expect(await transformed.getEntries('key')).toEqual([
+      history,
+      'entry',
+      'other',
+    ])
+
+    await transformed.truncate('key', 1)
+    expect(await transformed.getEntries('key')).toEqual([history])
+  })
+
+  it.concurrent('stays non-incremental for other storages', () => {
+    expect('append' in withCompression(getStorage().storage)).toBe(false)
+  })
+})
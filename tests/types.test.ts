@@ -0,0 +1,180 @@
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import type { Middleware, Reducer, UnknownAction } from 'redux'
+import {
+  type ActionType,
+  createMemoryStorage,
+  createUndoableInstance,
+  createUndoableSlice,
+  persistedUndoableActions,
+  type SliceActionType,
+  undoableActions,
+} from '../src'
+
+type CounterAction =
+  | { type: 'counter/increment' }
+  | { type: 'counter/decrement' }
+  | { type: 'counter/start'; payload: number }
+
+interface CounterState {
+  count: number
+}
+
+const counterReducer: Reducer<CounterState, CounterAction> = (
+  state = { count: 0 },
+  action,
+) => {
+  switch (action.type) {
+    case 'counter/increment':
+      return { count: state.count + 1 }
+    case 'counter/decrement':
+      return { count: state.count - 1 }
+    case 'counter/start':
+      return { count: action.payload }
+    default:
+      return state
+  }
+}
+
+// the shape of a slice created by Redux Toolkit's createSlice, whose action creators know their type
+const counterSlice = {
+  name: 'counter' as const,
+  reducer: counterReducer as Reducer<CounterState>,
+  actions: {
+    increment: createAction('counter/increment'),
+    decrement: createAction('counter/decrement'),
+  },
+}
+
+describe.concurrent('action type inference', () => {
+  it.concurrent('should infer the action types', () => {
+    expectTypeOf<ActionType<CounterAction>>().toEqualTypeOf<
+      'counter/increment' | 'counter/decrement' | 'counter/start'
+    >()
+    expectTypeOf<ActionType<UnknownAction>>().toEqualTypeOf<string>()
+    expectTypeOf<SliceActionType<typeof counterSlice.actions>>().toEqualTypeOf<
+      'counter/increment' | 'counter/decrement'
+    >()
+    expectTypeOf<
+      SliceActionType<{ increment: () => UnknownAction }>
+    >().toEqualTypeOf<string>()
+  })
+
+  it.concurrent('should constrain undoableActions', () => {
+    const reducer = undoableActions(counterReducer, {
+      trackedActions: ['counter/increment', 'counter/decrement'],
+      undoableActions: { exclude: ['counter/decrement'] },
+      trackAfterAction: 'counter/start',
+    })
+
+    undoableActions(counterReducer, {
+      // @ts-expect-error - typo in the action type
+      trackedActions: ['counter/incremnet'],
+    })
+    undoableActions(counterReducer, {
+      // @ts-expect-error - typo in the action type
+      undoableActions: { include: ['counter/decremnet'] },
+    })
+    undoableActions(counterReducer, {
+      // @ts-expect-error - typo in the action type
+      trackAfterAction: 'counter/strat',
+    })
+    // matchers are not constrained, to match actions of other reducers
+    undoableActions(counterReducer, {
+      trackedActions: ['counter/increment', /^app\//],
+    })
+
+    let state = reducer(undefined, { type: 'counter/decrement' })
+    state = reducer(state, { type: 'counter/start', payload: 2 })
+    state = reducer(state, { type: 'counter/increment' })
+    expect(state.canUndo).toBe(true)
+  })
+
+  it.concurrent('should not constrain unknown actions', () => {
+    undoableActions(
+      (state: CounterState = { count: 0 }, action: UnknownAction) =>
+        action.type === 'counter/increment'
+          ? { count: state.count + 1 }
+          : state,
+      { trackedActions: ['anything/goes'], trackAfterAction: 'app/start' },
+    )
+  })
+
+  it.concurrent('should constrain persistedUndoableActions', () => {
+    const persistence = {
+      reducerKey: 'counter',
+      getStorageKey: () => 'counter',
+      storage: createMemoryStorage(),
+    }
+
+    persistedUndoableActions(counterReducer, {
+      trackedActions: ['counter/increment'],
+      persistence,
+    })
+    persistedUndoableActions(counterReducer, {
+      // @ts-expect-error - typo in the action type
+      trackedActions: ['counter/incremnet'],
+      persistence,
+    })
+  })
+
+  it.concurrent('should constrain createUndoableInstance', () => {
+    createUndoableInstance('counter', counterReducer, {
+      trackedActions: ['counter/increment'],
+    })
+    createUndoableInstance('counter', counterReducer, {
+      // @ts-expect-error - typo in the action type
+      trackedActions: ['counter/incremnet'],
+    })
+  })
+
+  it.concurrent('should constrain createUndoableSlice', () => {
+    createUndoableSlice(counterSlice, {
+      trackedActions: [
+        counterSlice.actions.increment.type,
+        'counter/decrement',
+      ],
+    })
+    createUndoableSlice(counterSlice, {
+      // @ts-expect-error - typo in the action type
+      trackedActions: ['counter/incremnet'],
+    })
+    createUndoableSlice(counterSlice, {
+      trackedActions: [counterSlice.actions.increment],
+    })
+  })
+
+  it.concurrent('should return the middleware of persisted slices', () => {
+    const config = {
+      maxHistory: 10,
+      persistence: {
+        reducerKey: 'counter',
+        getStorageKey: () => 'counter',
+        storage: createMemoryStorage(),
+      },
+    }
+    const persisted = createUndoableSlice(counterSlice, config)
+    expectTypeOf(persisted.middleware).toEqualTypeOf<Middleware>()
+    expectTypeOf(persisted.flush).toEqualTypeOf<() => Promise<void>>()
+    expectTypeOf(persisted.dispose).toEqualTypeOf<() => void>()
+    expect(persisted.middleware).toBeTypeOf('function')
+
+    const plain = createUndoableSlice(counterSlice, { maxHistory: 10 })
+    expectTypeOf(plain).not.toHaveProperty('middleware')
+
+    const maybePersisted = createUndoableSlice(
+      counterSlice,
+      config as { persistence?: typeof config.persistence },
+    )
+    expectTypeOf(maybePersisted.middleware).toEqualTypeOf<
+      Middleware | undefined
+    >()
+  })
+})
+
+function createAction<Type extends string>(type: Type) {
+  return Object.assign(() => ({ type }), {
+    type,
+    match: (action: UnknownAction): action is { type: Type } =>
+      action.type === type,
+  })
+}
@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest'
+import type { UnknownAction } from 'redux'
 import {
   canRedo,
   canUndo,
@@ -31,6 +32,22 @@ describe.concurrent('canUndo', () => {
   })
 })
 
+describe.concurrent('canUndo with matchers', () => {
+  it.concurrent('returns true if an applied action matches', () => {
+    const config = { undoableActions: { exclude: ['file/select'] } }
+
+    expect(
+      canUndo(config, [{ action: { type: 'file/select' }, undone: false }]),
+    ).toBe(false)
+    expect(
+      canUndo(config, [
+        { action: { type: 'file/select' }, undone: false },
+        { action: { type: 'file/add' }, undone: false },
+      ]),
+    ).toBe(true)
+  })
+})
+
 describe.concurrent('canRedo', () => {
   const config = { undoableActions: ['file/add', 'file/remove'] }
   const actions = [
@@ -84,6 +101,59 @@ describe.concurrent('isActionTracked', () => {
   })
 })
 
+describe.concurrent('isActionTracked with matchers', () => {
+  it.concurrent('matches RegExps against the action type', () => {
+    const config = { trackedActions: [/^file\//g] }
+
+    expect(isActionTracked(config, { type: 'file/add' })).toBe(true)
+    expect(isActionTracked(config, { type: 'file/add' })).toBe(true)
+    expect(isActionTracked(config, { type: 'folder/add' })).toBe(false)
+  })
+
+  it.concurrent('calls predicates with the action', () => {
+    const config = {
+      trackedActions: [(action: UnknownAction) => action.payload === 'a.txt'],
+    }
+
+    expect(
+      isActionTracked(config, { type: 'file/add', payload: 'a.txt' }),
+    ).toBe(true)
+    expect(
+      isActionTracked(config, { type: 'file/add', payload: 'b.txt' }),
+    ).toBe(false)
+  })
+
+  it.concurrent('calls the match method of matchers', () => {
+    // like a Redux Toolkit action creator: a function with a match method
+    const add = Object.assign(
+      (payload: string) => ({ type: 'file/add', payload }),
+      { match: (action: UnknownAction) => action.type === 'file/add' },
+    )
+    const config = { trackedActions: [add, 'file/remove'] }
+
+    expect(isActionTracked(config, add('a.txt'))).toBe(true)
+    expect(isActionTracked(config, { type: 'file/remove' })).toBe(true)
+    expect(isActionTracked(config, { type: 'file/update' })).toBe(false)
+  })
+
+  it.concurrent('excludes actions', () => {
+    const config = {
+      trackedActions: { include: [/^canvas\//], exclude: ['canvas/hover'] },
+    }
+
+    expect(isActionTracked(config, { type: 'canvas/draw' })).toBe(true)
+    expect(isActionTracked(config, { type: 'canvas/hover' })).toBe(false)
+    expect(isActionTracked(config, { type: 'file/add' })).toBe(false)
+  })
+
+  it.concurrent('includes every action without include', () => {
+    const config = { trackedActions: { exclude: [/hover$/] } }
+
+    expect(isActionTracked(config, { type: 'file/add' })).toBe(true)
+    expect(isActionTracked(config, { type: 'canvas/hover' })).toBe(false)
+  })
+})
+
 describe.concurrent('deepEqual', () => {
   it.concurrent('returns true for primitives that are equal', () => {
     expect(deepEqual(1, 1)).toBe(true)
@@ -2,7 +2,7 @@ import { defineConfig } from 'tsdown'
 
 export default defineConfig([
   {
-    entry: ['./src/index.ts'],
+    entry: ['./src/index.ts', './src/react.ts'],
     platform: 'neutral',
     dts: true,
     outputOptions: {